@@ -0,0 +1,60 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import * as crypto from 'crypto';
+
+// Size and modification time of every file as this process last left it
+// (null once we deleted or moved it), so the folder watcher can tell our own
+// writes apart from changes made by a sync client
+const ownVersions = new Map<string, string | null>();
+
+async function currentVersion(filePath: string): Promise<string | null> {
+  try {
+    const stats = await fs.stat(filePath);
+    return `${stats.size}:${stats.mtimeMs}`;
+  } catch (error) {
+    return null;
+  }
+}
+
+// Remember the current state of a file this process just wrote, moved or deleted
+export async function recordOwnWrite(filePath: string) {
+  ownVersions.set(path.resolve(filePath), await currentVersion(filePath));
+}
+
+// Whether a file is still exactly as this process left it
+export async function isOwnWrite(filePath: string): Promise<boolean> {
+  const key = path.resolve(filePath);
+  return ownVersions.has(key) && ownVersions.get(key) === await currentVersion(filePath);
+}
+
+// Write to a temporary file next to the target, flush it to disk, then rename it
+// over the original. A crash or a sync client reading mid-write sees either the
+// old file or the new one, never a truncated mix of both.
+export async function writeFileAtomic(filePath: string, content: string | Uint8Array) {
+  // Unique per write, so two saves of the same file cannot share a temp file
+  const tempPath = path.join(
+    path.dirname(filePath),
+    `.${path.basename(filePath)}.${crypto.randomBytes(4).toString('hex')}.tmp`
+  );
+
+  try {
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(content, 'utf-8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+
+  await recordOwnWrite(filePath);
+}
+
+export async function deleteFile(filePath: string) {
+  await fs.unlink(filePath);
+  await recordOwnWrite(filePath);
+}
@@ -0,0 +1,48 @@
+import { powerMonitor } from 'electron';
+
+export interface LockSettings {
+  // Minutes without keyboard or mouse input before locking; 0 disables the timeout
+  idleMinutes: number;
+  lockOnMinimize: boolean;
+}
+
+export const DEFAULT_LOCK_SETTINGS: LockSettings = {
+  idleMinutes: 0,
+  lockOnMinimize: false,
+};
+
+export interface AutoLock {
+  start: () => void;
+  stop: () => void;
+}
+
+const IDLE_CHECK_INTERVAL_MS = 15 * 1000;
+
+// Watches system idle time while a session is unlocked and calls onIdle once
+// the configured timeout has passed
+export function createAutoLock(getSettings: () => LockSettings, onIdle: () => void): AutoLock {
+  let timer: NodeJS.Timeout | null = null;
+
+  const stop = () => {
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+  };
+
+  const check = () => {
+    const { idleMinutes } = getSettings();
+    if (idleMinutes > 0 && powerMonitor.getSystemIdleTime() >= idleMinutes * 60) {
+      stop();
+      onIdle();
+    }
+  };
+
+  return {
+    start: () => {
+      stop();
+      timer = setInterval(check, IDLE_CHECK_INTERVAL_MS);
+    },
+    stop,
+  };
+}
@@ -0,0 +1,142 @@
+import { AppDataSchema, AppData, DailyEntrySchema, DailyEntry, validateData } from './validation';
+import { encrypt, decrypt, DecryptionError } from './encryption';
+import { migrateAppData, migrateDailyEntry } from './migrations';
+import { mergeAppData, mergeDailyEntries, sameValue } from './syncConflicts';
+
+// A backup archive is one JSON file holding app-data and every daily entry,
+// encrypted with a password chosen at export time (not necessarily the folder's):
+//
+//   { "format": "calorie-tracker-backup", "version": 1, "createdAt": "...", "payload": "v2$..." }
+//
+// Only the format and creation time are readable without the password.
+const ARCHIVE_FORMAT = 'calorie-tracker-backup';
+const ARCHIVE_VERSION = 1;
+
+export const ARCHIVE_EXTENSION = 'ctbackup';
+
+export interface ArchiveContents {
+  createdAt: string;
+  appData: AppData;
+  entries: DailyEntry[];
+}
+
+// replace: the archive's version wins; merge: only add what is missing
+export type RestoreMode = 'replace' | 'merge';
+
+export interface RestorePreview {
+  createdAt: string;
+  days: { added: string[]; changed: string[]; unchanged: number };
+  savedFoods: { added: number; changed: number };
+  recipes: { added: number; changed: number };
+  mealTemplates: { added: number; changed: number };
+  weights: { added: number; changed: number };
+  recentMeals: number;
+  goalsChanged: boolean;
+}
+
+export function createArchive(appData: AppData, entries: DailyEntry[], password: string): string {
+  const payload = JSON.stringify({ appData, entries });
+  return JSON.stringify({
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    createdAt: new Date().toISOString(),
+    payload: encrypt(payload, password),
+  }, null, 2);
+}
+
+export function readArchive(fileContent: string, password: string): ArchiveContents {
+  let archive: { format?: string; version?: number; createdAt?: string; payload?: string };
+  try {
+    archive = JSON.parse(fileContent);
+  } catch (error) {
+    throw new Error('This file is not a backup archive');
+  }
+
+  if (archive.format !== ARCHIVE_FORMAT || typeof archive.payload !== 'string') {
+    throw new Error('This file is not a backup archive');
+  }
+  if (typeof archive.version !== 'number' || archive.version > ARCHIVE_VERSION) {
+    throw new Error('This backup was made by a newer version of the app. Please update the app.');
+  }
+
+  let payload: { appData?: unknown; entries?: unknown };
+  try {
+    payload = JSON.parse(decrypt(archive.payload, password));
+  } catch (error) {
+    if (error instanceof DecryptionError) {
+      throw new Error('Incorrect backup password');
+    }
+    throw new Error('The backup archive is damaged');
+  }
+
+  const appData = validateData(AppDataSchema, migrateAppData(payload.appData));
+  if (!appData.success) {
+    throw new Error(`The backup contains invalid app data: ${appData.error}`);
+  }
+
+  const entries: DailyEntry[] = [];
+  for (const raw of Array.isArray(payload.entries) ? payload.entries : []) {
+    const entry = validateData(DailyEntrySchema, migrateDailyEntry(raw));
+    if (!entry.success) {
+      throw new Error(`The backup contains an invalid daily entry: ${entry.error}`);
+    }
+    entries.push(entry.data);
+  }
+
+  return { createdAt: archive.createdAt || '', appData: appData.data, entries };
+}
+
+// Compare by content, ignoring fields the app adds on its own
+export const isSameEntry = (a: DailyEntry, b: DailyEntry) =>
+  sameValue({ ...a, id: undefined, schemaVersion: undefined }, { ...b, id: undefined, schemaVersion: undefined });
+
+function countByKey<T>(current: T[], incoming: T[], keyOf: (item: T) => string) {
+  const existing = new Map(current.map(item => [keyOf(item), item]));
+  let added = 0;
+  let changed = 0;
+  for (const item of incoming) {
+    const match = existing.get(keyOf(item));
+    if (match === undefined) added++;
+    else if (!sameValue(match, item)) changed++;
+  }
+  return { added, changed };
+}
+
+// What restoring the archive would add or touch, for the user to confirm first
+export function previewRestore(
+  archive: ArchiveContents,
+  currentAppData: AppData | null,
+  currentEntries: DailyEntry[]
+): RestorePreview {
+  const byDate = new Map(currentEntries.map(entry => [entry.date, entry]));
+  const days: RestorePreview['days'] = { added: [], changed: [], unchanged: 0 };
+  for (const entry of archive.entries) {
+    const current = byDate.get(entry.date);
+    if (!current) days.added.push(entry.date);
+    else if (!isSameEntry(current, entry)) days.changed.push(entry.date);
+    else days.unchanged++;
+  }
+
+  const appData = archive.appData;
+  const recentIds = new Set((currentAppData?.recentMeals || []).map(meal => meal.id));
+  return {
+    createdAt: archive.createdAt,
+    days,
+    savedFoods: countByKey(currentAppData?.savedFoods || [], appData.savedFoods, food => food.id),
+    recipes: countByKey(currentAppData?.recipes || [], appData.recipes, recipe => recipe.id),
+    mealTemplates: countByKey(currentAppData?.mealTemplates || [], appData.mealTemplates, template => template.id),
+    weights: countByKey(currentAppData?.weightHistory || [], appData.weightHistory, entry => entry.date),
+    recentMeals: appData.recentMeals.filter(meal => !recentIds.has(meal.id)).length,
+    goalsChanged: !!currentAppData && !sameValue(currentAppData.goals, appData.goals),
+  };
+}
+
+// The daily entry to store for a day in the archive
+export function restoreDailyEntry(current: DailyEntry | null, incoming: DailyEntry, mode: RestoreMode): DailyEntry {
+  return mode === 'replace' ? incoming : mergeDailyEntries(current, incoming).merged;
+}
+
+// The app data to store after restoring
+export function restoreAppData(current: AppData | null, incoming: AppData, mode: RestoreMode): AppData {
+  return mode === 'replace' ? incoming : mergeAppData(current, incoming).merged;
+}
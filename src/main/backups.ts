@@ -0,0 +1,97 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import * as fsSync from 'fs';
+import { AppDataSchema, AppData, validateData } from './validation';
+import { decrypt } from './encryption';
+import { writeFileAtomic } from './atomicWrite';
+import { migrateAppData } from './migrations';
+
+// Snapshots of app-data.json, copied as-is so they stay encrypted with the
+// folder's password. Taken before app-data is overwritten, at most once per
+// interval, keeping only the newest few.
+export const BACKUP_FOLDER = 'backups';
+const MAX_BACKUPS = 20;
+const BACKUP_INTERVAL_MS = 15 * 60 * 1000;
+
+// app-data-2026-01-23T18-30-00-000Z.json (an ISO timestamp made safe for file names)
+const BACKUP_FILE_PATTERN = /^app-data-(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z\.json$/;
+
+export interface BackupInfo {
+  file: string;
+  createdAt: string;
+  size: number;
+}
+
+function backupFileName(date: Date): string {
+  return `app-data-${date.toISOString().replace(/[:.]/g, '-')}.json`;
+}
+
+function parseBackupDate(file: string): string | null {
+  const match = BACKUP_FILE_PATTERN.exec(file);
+  if (!match) return null;
+  const [, day, hours, minutes, seconds, millis] = match;
+  return `${day}T${hours}:${minutes}:${seconds}.${millis}Z`;
+}
+
+// Newest first
+export async function listBackups(dataPath: string): Promise<BackupInfo[]> {
+  const backupPath = path.join(dataPath, BACKUP_FOLDER);
+  if (!fsSync.existsSync(backupPath)) {
+    return [];
+  }
+
+  const backups: BackupInfo[] = [];
+  for (const file of await fs.readdir(backupPath)) {
+    const createdAt = parseBackupDate(file);
+    if (!createdAt) continue;
+
+    const stats = await fs.stat(path.join(backupPath, file));
+    backups.push({ file, createdAt, size: stats.size });
+  }
+
+  return backups.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Copy the current app-data.json into the backup folder unless the latest
+// backup is recent enough. Returns the new backup's file name, if one was made.
+export async function backupAppData(dataPath: string, { force = false } = {}): Promise<string | null> {
+  const appDataPath = path.join(dataPath, 'app-data.json');
+  if (!fsSync.existsSync(appDataPath)) {
+    return null;
+  }
+
+  const existing = await listBackups(dataPath);
+  const now = new Date();
+  if (!force && existing.length > 0 &&
+      now.getTime() - new Date(existing[0].createdAt).getTime() < BACKUP_INTERVAL_MS) {
+    return null;
+  }
+
+  const file = backupFileName(now);
+  await fs.mkdir(path.join(dataPath, BACKUP_FOLDER), { recursive: true });
+  await writeFileAtomic(path.join(dataPath, BACKUP_FOLDER, file), await fs.readFile(appDataPath, 'utf-8'));
+
+  for (const old of existing.slice(MAX_BACKUPS - 1)) {
+    await fs.rm(path.join(dataPath, BACKUP_FOLDER, old.file), { force: true });
+  }
+
+  return file;
+}
+
+// Read and validate a backup so it can be restored
+export async function readBackup(dataPath: string, file: string, password: string | null): Promise<AppData> {
+  // Only names we generated, which also keeps the path inside the backup folder
+  if (!parseBackupDate(file)) {
+    throw new Error(`Not a backup file: ${file}`);
+  }
+
+  const fileContent = await fs.readFile(path.join(dataPath, BACKUP_FOLDER, file), 'utf-8');
+  const dataJson = password ? decrypt(fileContent, password) : fileContent;
+
+  const validation = validateData(AppDataSchema, migrateAppData(JSON.parse(dataJson)));
+  if (!validation.success) {
+    throw new Error(`Backup contains invalid data: ${validation.error}`);
+  }
+
+  return validation.data;
+}
@@ -0,0 +1,113 @@
+import { DailyEntry, MealEntry, ExerciseEntry } from './validation';
+import { scaledFood, formatPortion } from '../shared/servings';
+
+// iCalendar (RFC 5545) export of meals and workouts. Meals become events at
+// their logged time; workouts have no time of day, so they become all-day
+// events. UIDs are built from the day and the entry id, so importing a newer
+// export into a calendar app updates the events instead of duplicating them.
+
+const UID_DOMAIN = 'daily-calorie-tracker';
+const MEAL_DURATION = 'PT30M';
+
+// Backslash, semicolon, comma and line breaks are special in text values
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf-8');
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char, 'utf-8');
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+const compactDate = (date: string) => date.replace(/-/g, '');
+
+function utcStamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+function mealEvent(date: string, meal: MealEntry, stamp: string): string[] {
+  const calories = Math.round(meal.foods.reduce((sum, food) => sum + scaledFood(food).calories, 0));
+  const description = [
+    ...meal.foods.map(food => {
+      const portion = formatPortion(food);
+      return `${food.name}${portion ? ` (${portion})` : ''}: ${Math.round(scaledFood(food).calories)} cal`;
+    }),
+    ...(meal.notes ? ['', meal.notes] : []),
+  ].join('\n');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${date}-${meal.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    // Floating time: the meal's time in whatever time zone the calendar is in
+    `DTSTART:${compactDate(date)}T${meal.time.replace(':', '')}00`,
+    `DURATION:${MEAL_DURATION}`,
+    `SUMMARY:${escapeText(`${capitalize(meal.mealType)} · ${calories} cal`)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    'END:VEVENT',
+  ];
+}
+
+function exerciseEvent(date: string, exercise: ExerciseEntry, stamp: string): string[] {
+  const description = [
+    ...(exercise.duration !== undefined ? [`Duration: ${exercise.duration} min`] : []),
+    `Calories burned: ${exercise.caloriesBurned}`,
+    ...(exercise.notes ? ['', exercise.notes] : []),
+  ].join('\n');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${date}-${exercise.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${compactDate(date)}`,
+    `SUMMARY:${escapeText(`Workout: ${exercise.type}`)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+  ];
+}
+
+export function buildCalendar(entries: DailyEntry[]): string {
+  const stamp = utcStamp(new Date());
+  const events = entries.flatMap(entry => [
+    ...entry.meals.flatMap(meal => mealEvent(entry.date, meal, stamp)),
+    ...(entry.exercise ? exerciseEvent(entry.date, entry.exercise, stamp) : []),
+  ]);
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Daily Calorie Tracker//EN',
+    'CALSCALE:GREGORIAN',
+    'X-WR-CALNAME:Calorie Tracker',
+    ...events,
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
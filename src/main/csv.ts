@@ -0,0 +1,81 @@
+// A small RFC 4180 CSV reader: quoted fields may contain commas, doubled
+// quotes and line breaks. Handles CRLF line endings and a leading BOM, which
+// spreadsheet exports often have.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines carry no data
+  return rows.filter(r => r.length > 1 || r[0].trim() !== '');
+}
+
+// Rows keyed by header. Header names are trimmed and lowercased so lookups
+// don't depend on how a particular export capitalizes them.
+export function parseCsvRecords(text: string): { headers: string[]; records: Record<string, string>[] } {
+  const [headerRow, ...rows] = parseCsv(text);
+  if (!headerRow) {
+    return { headers: [], records: [] };
+  }
+
+  const headers = headerRow.map(header => header.trim().toLowerCase());
+  const records = rows.map(row => {
+    const record: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      record[header] = (row[index] ?? '').trim();
+    });
+    return record;
+  });
+
+  return { headers, records };
+}
+
+type CsvValue = string | number | undefined | null;
+
+// Quote only when needed, as spreadsheets do
+function formatCsvField(value: CsvValue): string {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatCsv(headers: string[], rows: CsvValue[][]): string {
+  return [headers, ...rows].map(row => row.map(formatCsvField).join(',')).join('\n') + '\n';
+}
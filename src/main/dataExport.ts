@@ -0,0 +1,81 @@
+import { DailyEntry } from './validation';
+import { formatCsv } from './csv';
+import { calculateDayTotals } from '../shared/nutritionStats';
+import { scaledFood, servingText } from '../shared/servings';
+import { MICRONUTRIENTS } from '../shared/nutrients';
+
+// CSV files written by export-data. The summary has one row per day and can be
+// imported again (see dataImport.ts); the itemized files are for reading in a
+// spreadsheet: one row per food eaten, and optionally per exercise and per day's water.
+export type ExportFormat = 'csv' | 'csv-itemized' | 'json' | 'ics';
+
+export interface ItemizedExportOptions {
+  includeExercise: boolean;
+  includeWater: boolean;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export function summaryCsv(entries: DailyEntry[]): string {
+  return formatCsv(
+    ['Date', 'Total Calories', 'Protein', 'Carbs', 'Fats', 'Exercise Calories', 'Weight', 'Water Glasses'],
+    entries.map(entry => {
+      const totals = calculateDayTotals(entry);
+      return [entry.date, totals.calories, totals.protein, totals.carbs, totals.fats,
+        entry.exercise?.caloriesBurned || 0, entry.weight, entry.water.glasses];
+    })
+  );
+}
+
+export function foodsCsv(entries: DailyEntry[]): string {
+  const rows = entries.flatMap(entry =>
+    [...entry.meals]
+      .sort((a, b) => a.time.localeCompare(b.time))
+      .flatMap(meal => meal.foods.map(food => {
+        // Amounts eaten, i.e. one serving's values times the quantity
+        const eaten = scaledFood(food);
+        return [
+          entry.date, meal.mealType, meal.time, food.name,
+          servingText(food), food.quantity ?? 1, food.grams,
+          round(eaten.calories), round(eaten.protein), round(eaten.carbs), round(eaten.fats),
+          // Blank when the food has no value, rather than a misleading zero
+          ...MICRONUTRIENTS.map(({ key }) => {
+            const value = eaten[key];
+            return value !== undefined ? round(value) : undefined;
+          }),
+          meal.notes,
+        ];
+      }))
+  );
+
+  return formatCsv(
+    ['Date', 'Meal', 'Time', 'Food', 'Serving', 'Servings Eaten', 'Grams', 'Calories', 'Protein (g)', 'Carbs (g)', 'Fats (g)',
+      ...MICRONUTRIENTS.map(({ label, unit }) => `${label} (${unit})`), 'Meal Notes'],
+    rows
+  );
+}
+
+export function exerciseCsv(entries: DailyEntry[]): string {
+  return formatCsv(
+    ['Date', 'Type', 'Calories Burned', 'Duration (min)', 'Notes'],
+    entries
+      .filter(entry => entry.exercise)
+      .map(({ date, exercise }) => [date, exercise!.type, exercise!.caloriesBurned, exercise!.duration, exercise!.notes])
+  );
+}
+
+export function waterCsv(entries: DailyEntry[]): string {
+  return formatCsv(
+    ['Date', 'Glasses', 'Ounces'],
+    entries.map(entry => [entry.date, entry.water.glasses, entry.water.ounces])
+  );
+}
+
+// The itemized export as file suffix and content: foods go in the chosen file,
+// exercise and water next to it as "<name>-exercise.csv" and "<name>-water.csv"
+export function itemizedCsvFiles(entries: DailyEntry[], options: ItemizedExportOptions): { suffix: string; content: string }[] {
+  const files = [{ suffix: '', content: foodsCsv(entries) }];
+  if (options.includeExercise) files.push({ suffix: '-exercise', content: exerciseCsv(entries) });
+  if (options.includeWater) files.push({ suffix: '-water', content: waterCsv(entries) });
+  return files;
+}
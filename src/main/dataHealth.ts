@@ -0,0 +1,134 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import * as fsSync from 'fs';
+import { AppDataSchema, validateData } from './validation';
+import { decrypt } from './encryption';
+import { readEntryFile, EntryFileStage } from './entryRepository';
+import { listBackups, BACKUP_FOLDER } from './backups';
+import { recordOwnWrite } from './atomicWrite';
+import { migrateAppData } from './migrations';
+
+export const QUARANTINE_FOLDER = 'quarantine';
+
+export interface HealthIssue {
+  // Path relative to the data folder, e.g. "daily/2025-03-04.md"
+  file: string;
+  stage: EntryFileStage;
+  reason: string;
+}
+
+export interface HealthReport {
+  checkedAt: string;
+  filesChecked: number;
+  issues: HealthIssue[];
+}
+
+export interface QuarantineResult {
+  moved: string[];
+  failed: { file: string; reason: string }[];
+}
+
+// Checks app-data.json or one of its backups
+async function checkAppData(dataPath: string, file: string, password: string | null): Promise<HealthIssue | null> {
+  const fail = (stage: EntryFileStage, reason: string): HealthIssue => ({ file, stage, reason });
+
+  let fileContent: string;
+  try {
+    fileContent = await fs.readFile(path.join(dataPath, file), 'utf-8');
+  } catch (error) {
+    return fail('read', `Unable to read file: ${String(error)}`);
+  }
+
+  let dataJson = fileContent;
+  if (password) {
+    try {
+      dataJson = decrypt(fileContent, password);
+    } catch (error) {
+      return fail('decrypt', 'Unable to decrypt app data');
+    }
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(dataJson);
+  } catch (error) {
+    return fail('json', `Invalid JSON: ${String(error)}`);
+  }
+
+  try {
+    data = migrateAppData(data);
+  } catch (error) {
+    return fail('schema', error instanceof Error ? error.message : String(error));
+  }
+
+  const validation = validateData(AppDataSchema, data);
+  return validation.success ? null : fail('schema', validation.error);
+}
+
+// Scan app-data.json, its backups and every daily file, listing the ones that cannot be loaded
+export async function checkDataHealth(dataPath: string, password: string | null): Promise<HealthReport> {
+  const issues: HealthIssue[] = [];
+  let filesChecked = 0;
+
+  if (fsSync.existsSync(path.join(dataPath, 'app-data.json'))) {
+    filesChecked++;
+    const issue = await checkAppData(dataPath, 'app-data.json', password);
+    if (issue) issues.push(issue);
+  }
+
+  for (const backup of await listBackups(dataPath)) {
+    filesChecked++;
+    const issue = await checkAppData(dataPath, `${BACKUP_FOLDER}/${backup.file}`, password);
+    if (issue) issues.push(issue);
+  }
+
+  const dailyPath = path.join(dataPath, 'daily');
+  const files = (await fs.readdir(dailyPath)).filter(f => f.endsWith('.md'));
+  filesChecked += files.length;
+
+  const results = await Promise.all(files.map(file => readEntryFile(dailyPath, file, password)));
+  results.forEach((result) => {
+    if (!result.ok) {
+      issues.push({ ...result.error, file: `daily/${result.error.file}` });
+    }
+  });
+
+  return {
+    checkedAt: new Date().toISOString(),
+    filesChecked,
+    issues: issues.sort((a, b) => a.file.localeCompare(b.file)),
+  };
+}
+
+// Move problem files out of the way so they stop affecting the app.
+// Files keep their relative path inside quarantine/ and are never overwritten.
+export async function quarantineFiles(dataPath: string, files: string[]): Promise<QuarantineResult> {
+  const result: QuarantineResult = { moved: [], failed: [] };
+  const root = path.resolve(dataPath);
+  const quarantineRoot = path.join(root, QUARANTINE_FOLDER);
+
+  for (const file of files) {
+    const source = path.resolve(root, file);
+
+    // Only files inside the data folder (and not already quarantined) may be moved
+    if (!source.startsWith(root + path.sep) || source.startsWith(quarantineRoot + path.sep)) {
+      result.failed.push({ file, reason: 'File is outside the data folder' });
+      continue;
+    }
+
+    try {
+      let target = path.join(quarantineRoot, path.relative(root, source));
+      if (fsSync.existsSync(target)) {
+        target = `${target}.${Date.now()}`;
+      }
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.rename(source, target);
+      await recordOwnWrite(source);
+      result.moved.push(file);
+    } catch (error) {
+      result.failed.push({ file, reason: String(error) });
+    }
+  }
+
+  return result;
+}
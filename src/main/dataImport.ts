@@ -0,0 +1,141 @@
+import { DailyEntrySchema, DailyEntry, validateData } from './validation';
+import { migrateDailyEntry } from './migrations';
+import { parseCsvRecords } from './csv';
+import { mealFingerprint } from './foodLogImport';
+
+// Reads back files written by export-data:
+//
+//   JSON  the daily entries themselves, so a full round-trip
+//   CSV   one summary row per day (Date, Total Calories, Protein, Carbs, Fats,
+//         Exercise Calories, Weight, Water Glasses). Food detail is not in the
+//         file, so each day's totals come back as a single meal.
+//
+// Every day is validated against DailyEntrySchema; invalid ones are reported
+// and left out.
+export type ImportConflictPolicy = 'skip' | 'overwrite' | 'merge';
+
+export interface ParsedExport {
+  format: 'json' | 'csv';
+  entries: DailyEntry[];
+  invalid: { day: string; error: string }[];
+}
+
+const OUNCES_PER_GLASS = 8;
+
+function parseJsonExport(text: string): ParsedExport {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error('The file is not valid JSON');
+  }
+  if (!Array.isArray(data)) {
+    throw new Error('Expected a list of daily entries, as written by Export to JSON');
+  }
+
+  const entries: DailyEntry[] = [];
+  const invalid: ParsedExport['invalid'] = [];
+  data.forEach((raw, index) => {
+    const day = typeof raw?.date === 'string' ? raw.date : `Entry ${index + 1}`;
+    try {
+      const validation = validateData(DailyEntrySchema, migrateDailyEntry(raw));
+      if (validation.success) {
+        // Strip the repository id; it is re-derived from the date when saved
+        const { id: _id, ...entry } = validation.data;
+        entries.push(entry);
+      } else {
+        invalid.push({ day, error: validation.error });
+      }
+    } catch (error) {
+      invalid.push({ day, error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  return { format: 'json', entries, invalid };
+}
+
+function parseCsvExport(text: string): ParsedExport {
+  const { headers, records } = parseCsvRecords(text);
+  if (!headers.includes('date') || !headers.includes('total calories')) {
+    throw new Error('Unrecognized CSV file. Expected a summary written by Export to CSV.');
+  }
+
+  const entries: DailyEntry[] = [];
+  const invalid: ParsedExport['invalid'] = [];
+  records.forEach((record, index) => {
+    const date = record['date'];
+    const number = (column: string) => (record[column] ? Number(record[column]) : 0);
+    const glasses = number('water glasses');
+    const exerciseCalories = number('exercise calories');
+
+    const entry = {
+      date,
+      meals: [{
+        // Stable, so importing the same file again finds the meal already there
+        id: `meal-summary-${date}`,
+        mealType: 'snack',
+        time: '12:00',
+        foods: [{
+          name: 'Daily total',
+          calories: number('total calories'),
+          protein: number('protein'),
+          carbs: number('carbs'),
+          fats: number('fats'),
+        }],
+        notes: 'Daily totals imported from a CSV export',
+      }],
+      water: { glasses, ounces: glasses * OUNCES_PER_GLASS },
+      exercise: exerciseCalories > 0
+        ? { id: `exercise-summary-${date}`, type: 'Other', caloriesBurned: exerciseCalories }
+        : undefined,
+      weight: record['weight'] ? Number(record['weight']) : undefined,
+      tags: [],
+    };
+
+    const validation = validateData(DailyEntrySchema, entry);
+    if (validation.success) {
+      entries.push(validation.data);
+    } else {
+      // Row 1 is the header
+      invalid.push({ day: date || `Row ${index + 2}`, error: validation.error });
+    }
+  });
+
+  return { format: 'csv', entries, invalid };
+}
+
+export function parseExport(text: string): ParsedExport {
+  return text.trimStart().startsWith('[') ? parseJsonExport(text) : parseCsvExport(text);
+}
+
+// Keep everything in the current entry and add what only the imported one has.
+// Meals already present (same id, or same type and foods) are not added again.
+export function mergeImportedEntry(current: DailyEntry, incoming: DailyEntry): DailyEntry {
+  const knownIds = new Set(current.meals.map(meal => meal.id));
+  const knownMeals = new Set(current.meals.map(mealFingerprint));
+  const hasWater = current.water.glasses > 0 || current.water.ounces > 0;
+
+  return {
+    ...current,
+    meals: [
+      ...current.meals,
+      ...incoming.meals.filter(meal => !knownIds.has(meal.id) && !knownMeals.has(mealFingerprint(meal))),
+    ],
+    water: hasWater ? current.water : incoming.water,
+    exercise: current.exercise || incoming.exercise,
+    weight: current.weight ?? incoming.weight,
+    notes: current.notes || incoming.notes,
+    tags: Array.from(new Set([...current.tags, ...incoming.tags])),
+  };
+}
+
+// The entry to save for an imported day, or null to leave the day alone
+export function resolveImportedEntry(
+  current: DailyEntry | null,
+  incoming: DailyEntry,
+  policy: ImportConflictPolicy
+): DailyEntry | null {
+  if (!current || policy === 'overwrite') return incoming;
+  if (policy === 'skip') return null;
+  return mergeImportedEntry(current, incoming);
+}
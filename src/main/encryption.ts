@@ -0,0 +1,122 @@
+import * as crypto from 'crypto';
+import CryptoJS from 'crypto-js';
+
+// Encrypted payloads are stored as a versioned envelope:
+//
+//   v2$<salt>$<iv>$<auth tag>$<ciphertext>     (each part base64)
+//
+// v2 uses AES-256-GCM with a key derived from the password by scrypt.
+// Anything without a version prefix is the original CryptoJS passphrase
+// format (v1), which is still readable and gets rewritten as v2 on save.
+const ENVELOPE_VERSION = 'v2';
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const KEY_BYTES = 32;
+const SCRYPT_OPTIONS: crypto.ScryptOptions = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+
+export class DecryptionError extends Error {
+  constructor(message = 'Unable to decrypt data') {
+    super(message);
+    this.name = 'DecryptionError';
+  }
+}
+
+// Derived keys, keyed by password hash and salt, so each pair only pays for scrypt once
+const keyCache = new Map<string, Buffer>();
+
+// Salt to use for new envelopes per password. Reusing the salt found in existing
+// files keeps a data folder on a single derived key; every file still gets its own IV.
+const writeSalts = new Map<string, Buffer>();
+
+const passwordId = (password: string) =>
+  crypto.createHash('sha256').update(password, 'utf8').digest('hex');
+
+function deriveKey(password: string, salt: Buffer): Buffer {
+  const cacheKey = `${passwordId(password)}:${salt.toString('base64')}`;
+  let key = keyCache.get(cacheKey);
+  if (!key) {
+    key = crypto.scryptSync(password, salt, KEY_BYTES, SCRYPT_OPTIONS);
+    keyCache.set(cacheKey, key);
+  }
+  return key;
+}
+
+export function isLegacyPayload(payload: string): boolean {
+  return !payload.trim().startsWith(`${ENVELOPE_VERSION}$`);
+}
+
+export function encrypt(text: string, password: string): string {
+  const id = passwordId(password);
+  let salt = writeSalts.get(id);
+  if (!salt) {
+    salt = crypto.randomBytes(SALT_BYTES);
+    writeSalts.set(id, salt);
+  }
+
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(password, salt), iv);
+  const ciphertext = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return [ENVELOPE_VERSION, salt, iv, tag, ciphertext]
+    .map(part => (typeof part === 'string' ? part : part.toString('base64')))
+    .join('$');
+}
+
+function decryptEnvelope(payload: string, password: string): string {
+  const parts = payload.split('$');
+  if (parts.length !== 5) {
+    throw new DecryptionError('Malformed encrypted data');
+  }
+
+  const [, salt, iv, tag, ciphertext] = parts.map(part => Buffer.from(part, 'base64'));
+  if (salt.length !== SALT_BYTES || iv.length !== IV_BYTES) {
+    throw new DecryptionError('Malformed encrypted data');
+  }
+
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', deriveKey(password, salt), iv);
+    decipher.setAuthTag(tag);
+    const text = Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+
+    // Adopt the folder's salt for files written later in this session
+    const id = passwordId(password);
+    if (!writeSalts.has(id)) {
+      writeSalts.set(id, salt);
+    }
+
+    return text;
+  } catch (error) {
+    // The auth tag check fails for a wrong password or tampered data
+    throw new DecryptionError();
+  }
+}
+
+function decryptLegacy(payload: string, password: string): string {
+  let text: string;
+  try {
+    text = CryptoJS.AES.decrypt(payload, password).toString(CryptoJS.enc.Utf8);
+  } catch (error) {
+    throw new DecryptionError();
+  }
+
+  // A wrong password usually yields an empty string rather than an exception
+  if (!text && payload) {
+    throw new DecryptionError();
+  }
+
+  return text;
+}
+
+export function decrypt(encryptedText: string, password: string): string {
+  const payload = encryptedText.trim();
+  return isLegacyPayload(payload)
+    ? decryptLegacy(payload, password)
+    : decryptEnvelope(payload, password);
+}
+
+// Forget derived keys so nothing usable stays in memory after locking
+export function clearKeyCache() {
+  keyCache.clear();
+  writeSalts.clear();
+}
@@ -0,0 +1,84 @@
+import { DailyEntry } from './validation';
+
+// A daily entry as served to the renderer: `id` is the file name without `.md`
+export type IndexedEntry = DailyEntry & { id: string };
+
+export interface EntryIndex {
+  isLoaded: () => boolean;
+  load: (entries: IndexedEntry[]) => void;
+  clear: () => void;
+  get: (date: string) => IndexedEntry | undefined;
+  set: (entry: IndexedEntry) => void;
+  remove: (date: string) => void;
+  range: (startDate?: string, endDate?: string) => IndexedEntry[];
+}
+
+// Find the first position in a sorted array whose value is >= target (or > target)
+function bound(sorted: string[], target: string, inclusive: boolean): number {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (sorted[mid] < target || (!inclusive && sorted[mid] === target)) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+// In-memory, date-keyed index of decrypted daily entries.
+// Dates are yyyy-MM-dd strings, so lexical order is chronological order.
+export function createEntryIndex(): EntryIndex {
+  const entries = new Map<string, IndexedEntry>();
+  let sortedDates: string[] = [];
+  let loaded = false;
+
+  const set = (entry: IndexedEntry) => {
+    if (!entries.has(entry.date)) {
+      sortedDates.splice(bound(sortedDates, entry.date, true), 0, entry.date);
+    }
+    entries.set(entry.date, entry);
+  };
+
+  return {
+    isLoaded: () => loaded,
+
+    load: (initial) => {
+      entries.clear();
+      sortedDates = [];
+      initial.forEach(set);
+      loaded = true;
+    },
+
+    clear: () => {
+      entries.clear();
+      sortedDates = [];
+      loaded = false;
+    },
+
+    get: (date) => entries.get(date),
+
+    set,
+
+    remove: (date) => {
+      if (!entries.delete(date)) return;
+      const position = bound(sortedDates, date, true);
+      if (sortedDates[position] === date) {
+        sortedDates.splice(position, 1);
+      }
+    },
+
+    // Entries within [startDate, endDate], newest first
+    range: (startDate, endDate) => {
+      const start = startDate ? bound(sortedDates, startDate, true) : 0;
+      const end = endDate ? bound(sortedDates, endDate, false) : sortedDates.length;
+      const result: IndexedEntry[] = [];
+      for (let i = end - 1; i >= start; i--) {
+        result.push(entries.get(sortedDates[i])!);
+      }
+      return result;
+    },
+  };
+}
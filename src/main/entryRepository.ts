@@ -0,0 +1,273 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import * as fsSync from 'fs';
+import matter from 'gray-matter';
+import { DailyEntry, DailyEntrySchema, validateData } from './validation';
+import { createEntryIndex, IndexedEntry } from './entryIndex';
+import { writeFileAtomic, deleteFile } from './atomicWrite';
+import { WriteLock } from './writeLock';
+import { encrypt, decrypt } from './encryption';
+import { migrateDailyEntry, DAILY_ENTRY_VERSION } from './migrations';
+import { calculateDayTotals } from '../shared/nutritionStats';
+
+// The step at which a daily file could not be loaded
+export type EntryFileStage = 'read' | 'frontmatter' | 'decrypt' | 'json' | 'schema';
+
+export interface EntryFileError {
+  file: string;
+  stage: EntryFileStage;
+  reason: string;
+}
+
+export interface EntryListResult {
+  entries: IndexedEntry[];
+  errors: EntryFileError[];
+}
+
+export interface EntryQuery {
+  startDate?: string;
+  endDate?: string;
+  text?: string;
+  tags?: string[];
+}
+
+export interface EntryRepository {
+  list: () => Promise<EntryListResult>;
+  get: (date: string) => Promise<IndexedEntry | null>;
+  put: (entry: DailyEntry) => Promise<IndexedEntry>;
+  delete: (date: string) => Promise<void>;
+  reload: (date: string) => Promise<IndexedEntry | null>;
+  query: (query: EntryQuery) => Promise<IndexedEntry[]>;
+  rewriteAll: () => Promise<{ rewritten: number; errors: EntryFileError[] }>;
+}
+
+interface RepositoryOptions {
+  dailyPath: string;
+  // Read on every use, so writes queued behind a password change use the new one
+  getPassword: () => string | null;
+  // In strict privacy mode nothing sensitive is written to the plaintext frontmatter
+  isStrictPrivacy: () => boolean;
+  writeLock: WriteLock;
+}
+
+// Only canonical names; sync conflict copies like "2025-03-04 (1).md" are merged separately
+export const DAILY_FILE_PATTERN = /^\d{4}-\d{2}-\d{2}\.md$/;
+
+export type ReadResult = { ok: true; entry: IndexedEntry } | { ok: false; error: EntryFileError };
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Read, parse, decrypt and validate a single daily file, reporting the first step that fails
+export async function readEntryFile(dailyPath: string, file: string, password: string | null): Promise<ReadResult> {
+  const fail = (stage: EntryFileStage, reason: string): ReadResult => ({
+    ok: false,
+    error: { file, stage, reason },
+  });
+
+  let fileContent: string;
+  try {
+    fileContent = await fs.readFile(path.join(dailyPath, file), 'utf-8');
+  } catch (error) {
+    return fail('read', `Unable to read file: ${errorMessage(error)}`);
+  }
+
+  let parsed: matter.GrayMatterFile<string>;
+  try {
+    parsed = matter(fileContent);
+  } catch (error) {
+    return fail('frontmatter', `Invalid frontmatter: ${errorMessage(error)}`);
+  }
+
+  let entryContent = parsed.content;
+  if (password) {
+    try {
+      entryContent = decrypt(parsed.content.trim(), password);
+    } catch (error) {
+      return fail('decrypt', 'Unable to decrypt entry');
+    }
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(entryContent);
+  } catch (error) {
+    return fail('json', `Invalid JSON: ${errorMessage(error)}`);
+  }
+
+  try {
+    data = migrateDailyEntry(data);
+  } catch (error) {
+    return fail('schema', errorMessage(error));
+  }
+
+  const validation = validateData(DailyEntrySchema, data);
+  if (!validation.success) {
+    return fail('schema', validation.error);
+  }
+
+  return {
+    ok: true,
+    entry: {
+      ...validation.data,
+      id: file.replace('.md', ''),
+      date: parsed.data.date || validation.data.date,
+    },
+  };
+}
+
+// Owns the daily/ folder: every read and write of a daily entry goes through here
+export function createEntryRepository({ dailyPath, getPassword, isStrictPrivacy, writeLock }: RepositoryOptions): EntryRepository {
+  const index = createEntryIndex();
+  let loadErrors: EntryFileError[] = [];
+  let loading: Promise<void> | null = null;
+
+  const load = async () => {
+    const files = await fs.readdir(dailyPath);
+    const results = await Promise.all(
+      files.filter(f => DAILY_FILE_PATTERN.test(f)).map(file => readEntryFile(dailyPath, file, getPassword()))
+    );
+
+    const entries: IndexedEntry[] = [];
+    const errors: EntryFileError[] = [];
+    results.forEach((result) => {
+      if (result.ok) {
+        entries.push(result.entry);
+      } else {
+        errors.push(result.error);
+        console.warn(`Skipping daily entry ${result.error.file}: ${result.error.reason}`);
+      }
+    });
+
+    index.load(entries);
+    loadErrors = errors;
+  };
+
+  // Load the index once; concurrent callers share the same pass over the folder
+  const ensureLoaded = async () => {
+    if (index.isLoaded()) return;
+    if (!loading) {
+      loading = load().finally(() => {
+        loading = null;
+      });
+    }
+    await loading;
+  };
+
+  const buildFrontmatter = (entry: DailyEntry) => {
+    // The date is already visible in the file name, so it is not sensitive
+    if (isStrictPrivacy()) {
+      return { date: entry.date, encrypted: true };
+    }
+
+    return {
+      date: entry.date,
+      totalCalories: calculateDayTotals(entry).calories,
+      encrypted: true,
+    };
+  };
+
+  const writeEntry = async (entry: DailyEntry): Promise<IndexedEntry> => {
+    // Convert entry to JSON string
+    const contentJson = JSON.stringify({ ...entry, schemaVersion: DAILY_ENTRY_VERSION }, null, 2);
+
+    // A write that waited for the lock may find the session locked since; it
+    // must not be written unencrypted then
+    const password = getPassword();
+    if (!password) {
+      throw new Error('The session was locked before the entry could be saved');
+    }
+    const content = encrypt(contentJson, password);
+
+    const fileContent = matter.stringify(content, buildFrontmatter(entry));
+    await writeFileAtomic(path.join(dailyPath, `${entry.date}.md`), fileContent);
+
+    const stored: IndexedEntry = { ...entry, id: entry.date };
+    index.set(stored);
+    loadErrors = loadErrors.filter(e => e.file !== `${entry.date}.md`);
+    return stored;
+  };
+
+  return {
+    list: async () => {
+      await ensureLoaded();
+      return { entries: index.range(), errors: [...loadErrors] };
+    },
+
+    get: async (date) => {
+      await ensureLoaded();
+      return index.get(date) ?? null;
+    },
+
+    put: async (entry) => {
+      await ensureLoaded();
+      return writeLock.run(() => writeEntry(entry));
+    },
+
+    delete: async (date) => {
+      await ensureLoaded();
+      await writeLock.run(() => deleteFile(path.join(dailyPath, `${date}.md`)));
+      index.remove(date);
+      loadErrors = loadErrors.filter(e => e.file !== `${date}.md`);
+    },
+
+    // Re-read one day after it was changed outside the app
+    reload: async (date) => {
+      await ensureLoaded();
+      const file = `${date}.md`;
+      loadErrors = loadErrors.filter(e => e.file !== file);
+
+      if (!fsSync.existsSync(path.join(dailyPath, file))) {
+        index.remove(date);
+        return null;
+      }
+
+      const result = await readEntryFile(dailyPath, file, getPassword());
+      if (!result.ok) {
+        index.remove(date);
+        loadErrors.push(result.error);
+        return null;
+      }
+
+      index.set(result.entry);
+      return result.entry;
+    },
+
+    query: async ({ startDate, endDate, text, tags }) => {
+      await ensureLoaded();
+      let results = index.range(startDate, endDate);
+
+      if (text && text.trim()) {
+        const lowerQuery = text.toLowerCase();
+        results = results.filter(entry =>
+          entry.notes?.toLowerCase().includes(lowerQuery) ||
+          entry.meals.some(meal =>
+            meal.foods.some(food =>
+              food.name.toLowerCase().includes(lowerQuery)
+            )
+          )
+        );
+      }
+
+      if (tags && tags.length > 0) {
+        results = results.filter(entry =>
+          tags.some(tag => entry.tags.includes(tag))
+        );
+      }
+
+      return results;
+    },
+
+    // Write every loadable entry again, e.g. after the privacy mode changed.
+    // Files that could not be loaded are reported and left untouched.
+    rewriteAll: async () => {
+      await ensureLoaded();
+      const entries = index.range();
+      await writeLock.run(async () => {
+        for (const entry of entries) {
+          await writeEntry(entry);
+        }
+      });
+      return { rewritten: entries.length, errors: [...loadErrors] };
+    },
+  };
+}
@@ -0,0 +1,82 @@
+import * as path from 'path';
+import * as fsSync from 'fs';
+import { isOwnWrite } from './atomicWrite';
+import { DAILY_FILE_PATTERN } from './entryRepository';
+import { isConflictCopy } from './syncConflicts';
+
+// What changed underneath the app, e.g. because a sync client downloaded a newer file
+export type DataChange =
+  | { kind: 'appData' }
+  | { kind: 'daily'; date: string }
+  | { kind: 'conflict'; file: string };
+
+// Sync clients often touch a file several times in a row; wait for them to settle
+const SETTLE_MS = 500;
+
+function classify(file: string, inDailyFolder: boolean): DataChange | null {
+  if (inDailyFolder) {
+    if (DAILY_FILE_PATTERN.test(file)) {
+      return { kind: 'daily', date: path.basename(file, '.md') };
+    }
+    return isConflictCopy(file, true) ? { kind: 'conflict', file: `daily/${file}` } : null;
+  }
+
+  if (file === 'app-data.json') {
+    return { kind: 'appData' };
+  }
+  return isConflictCopy(file, false) ? { kind: 'conflict', file } : null;
+}
+
+// Watches the data folder and daily/ (not recursively, so it behaves the same on
+// every platform) and reports changes this process did not make itself
+export function createFolderWatcher(onChange: (change: DataChange) => void) {
+  let watchers: fsSync.FSWatcher[] = [];
+  const timers = new Map<string, NodeJS.Timeout>();
+
+  const handleEvent = (folder: string, file: string, inDailyFolder: boolean) => {
+    const change = classify(file, inDailyFolder);
+    if (!change) return;
+
+    const filePath = path.join(folder, file);
+    clearTimeout(timers.get(filePath));
+    timers.set(filePath, setTimeout(async () => {
+      timers.delete(filePath);
+      if (!(await isOwnWrite(filePath))) {
+        onChange(change);
+      }
+    }, SETTLE_MS));
+  };
+
+  const stop = () => {
+    watchers.forEach(watcher => watcher.close());
+    watchers = [];
+    timers.forEach(timer => clearTimeout(timer));
+    timers.clear();
+  };
+
+  const start = (dataPath: string) => {
+    stop();
+
+    const folders: [string, boolean][] = [
+      [dataPath, false],
+      [path.join(dataPath, 'daily'), true],
+    ];
+    for (const [folder, inDailyFolder] of folders) {
+      try {
+        const watcher = fsSync.watch(folder, (eventType, file) => {
+          if (file) handleEvent(folder, file.toString(), inDailyFolder);
+        });
+        watcher.on('error', (error) => {
+          console.error(`Stopped watching ${folder}:`, error);
+          watcher.close();
+        });
+        watchers.push(watcher);
+      } catch (error) {
+        // Live reload is a convenience; the app still works without it
+        console.error(`Unable to watch ${folder}:`, error);
+      }
+    }
+  };
+
+  return { start, stop };
+}
@@ -0,0 +1,250 @@
+import * as crypto from 'crypto';
+import { DailyEntry, MealEntry, FoodItem } from './validation';
+import { parseCsvRecords } from './csv';
+import { parseServingSize, scaledFood } from '../shared/servings';
+import { Micronutrient } from '../shared/nutrients';
+
+// Imports daily food logs exported from other trackers:
+//
+//   MyFitnessPal  "Nutrition" export: one row per day and meal with totals
+//                 (Date, Meal, Calories, Fat (g), Carbohydrates (g), Protein (g), ...)
+//   Cronometer    "Servings" export: one row per food eaten
+//                 (Day, Time, Group, Food Name, Amount, Energy (kcal), Protein (g), ...)
+//
+// Rows become meals grouped by day and meal type. Meals that are already in a
+// day's entry (same meal type and foods) are skipped, so importing the same
+// file twice adds nothing.
+export type FoodLogSource = 'myfitnesspal' | 'cronometer';
+
+const FOOD_LOG_SOURCE_NAMES: Record<FoodLogSource, string> = {
+  myfitnesspal: 'MyFitnessPal',
+  cronometer: 'Cronometer',
+};
+
+type MealType = MealEntry['mealType'];
+
+// Micronutrient columns of each export. Blank cells mean the value is unknown,
+// so they are left out instead of counting as zero.
+const MICRONUTRIENT_COLUMNS: Record<FoodLogSource, Record<Micronutrient, string>> = {
+  myfitnesspal: {
+    fiber: 'fiber', sugar: 'sugar', sodium: 'sodium (mg)', saturatedFat: 'saturated fat', cholesterol: 'cholesterol',
+  },
+  cronometer: {
+    fiber: 'fiber (g)', sugar: 'sugars (g)', sodium: 'sodium (mg)', saturatedFat: 'saturated (g)',
+    cholesterol: 'cholesterol (mg)',
+  },
+};
+
+// Neither export has a reliable time of day, so meals get a typical one
+const DEFAULT_MEAL_TIMES: Record<MealType, string> = {
+  breakfast: '08:00',
+  lunch: '12:00',
+  dinner: '18:00',
+  snack: '15:00',
+};
+
+export interface ParsedFoodLog {
+  source: FoodLogSource;
+  meals: { date: string; meal: MealEntry }[];
+  skipped: { row: number; reason: string }[];
+}
+
+export interface FoodLogDayPreview {
+  date: string;
+  isNewDay: boolean;
+  meals: number;
+  duplicates: number;
+  calories: number;
+}
+
+export interface FoodLogImportPreview {
+  source: FoodLogSource;
+  days: FoodLogDayPreview[];
+  meals: number;
+  duplicates: number;
+  skipped: { row: number; reason: string }[];
+}
+
+// "Breakfast", "Snacks", "Dinner 2", Cronometer's "Uncategorized", ...
+export function mealTypeFromName(name: string): MealType {
+  const lower = name.toLowerCase();
+  if (lower.includes('breakfast')) return 'breakfast';
+  if (lower.includes('lunch')) return 'lunch';
+  if (lower.includes('dinner') || lower.includes('supper')) return 'dinner';
+  return 'snack';
+}
+
+// YYYY-MM-DD as both apps write it, or M/D/YYYY from a spreadsheet round-trip
+function parseDate(value: string): string | null {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+
+  const match = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(value);
+  if (!match) return null;
+  const [, month, day, year] = match;
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+// "08:30", "8:30 AM" or "8:30pm"
+function parseTime(value: string): string | null {
+  const match = /^(\d{1,2}):(\d{2})(?::\d{2})?\s*([ap]m)?$/i.exec(value.trim());
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem === 'pm' && hours < 12) hours += 12;
+  if (meridiem === 'am' && hours === 12) hours = 0;
+  if (hours > 23) return null;
+  return `${String(hours).padStart(2, '0')}:${match[2]}`;
+}
+
+// Blank cells count as zero; thousands separators are dropped
+function parseAmount(value: string | undefined): number | null {
+  if (!value) return 0;
+  const amount = Number(value.replace(/,/g, ''));
+  return Number.isFinite(amount) && amount >= 0 ? Math.round(amount * 10) / 10 : null;
+}
+
+function detectSource(headers: string[]): FoodLogSource | null {
+  if (headers.includes('food name') && headers.includes('energy (kcal)')) return 'cronometer';
+  if (headers.includes('date') && headers.includes('meal') && headers.includes('calories')) return 'myfitnesspal';
+  return null;
+}
+
+export function parseFoodLog(text: string): ParsedFoodLog {
+  const { headers, records } = parseCsvRecords(text);
+  const source = detectSource(headers);
+  if (!source) {
+    throw new Error('Unrecognized file. Expected a MyFitnessPal nutrition export or a Cronometer servings export.');
+  }
+
+  const skipped: ParsedFoodLog['skipped'] = [];
+  const meals = new Map<string, { date: string; meal: MealEntry }>();
+
+  records.forEach((record, index) => {
+    // Row 1 is the header
+    const row = index + 2;
+    const columns = source === 'cronometer'
+      ? { date: record['day'], meal: record['group'], name: record['food name'], calories: record['energy (kcal)'],
+          protein: record['protein (g)'], carbs: record['carbs (g)'], fats: record['fat (g)'] }
+      : { date: record['date'], meal: record['meal'], name: '', calories: record['calories'],
+          protein: record['protein (g)'], carbs: record['carbohydrates (g)'], fats: record['fat (g)'] };
+
+    const date = parseDate(columns.date || '');
+    if (!date) {
+      skipped.push({ row, reason: `Unrecognized date "${columns.date || ''}"` });
+      return;
+    }
+
+    const calories = parseAmount(columns.calories);
+    const protein = parseAmount(columns.protein);
+    const carbs = parseAmount(columns.carbs);
+    const fats = parseAmount(columns.fats);
+    if (calories === null || protein === null || carbs === null || fats === null) {
+      skipped.push({ row, reason: 'Calories and macros must be non-negative numbers' });
+      return;
+    }
+
+    const mealName = columns.meal || 'Snacks';
+    const mealType = mealTypeFromName(mealName);
+    const food: FoodItem = {
+      // MyFitnessPal only exports each meal's totals
+      name: columns.name || `${mealName} (MyFitnessPal)`,
+      calories,
+      protein,
+      carbs,
+      fats,
+    };
+    for (const [key, column] of Object.entries(MICRONUTRIENT_COLUMNS[source]) as [Micronutrient, string][]) {
+      const value = record[column] ? parseAmount(record[column]) : null;
+      if (value !== null) food[key] = value;
+    }
+    // Cronometer's amounts read like "100.00 g"; the values are for that amount
+    const serving = source === 'cronometer' ? parseServingSize(record['amount'] || '') : null;
+    if (serving?.unit === 'g') {
+      food.grams = serving.amount;
+    } else if (serving) {
+      food.serving = serving;
+    } else if (source === 'cronometer' && record['amount']?.trim()) {
+      food.servingLabel = record['amount'].trim();
+    }
+
+    const key = `${date}|${mealType}`;
+    const existing = meals.get(key);
+    if (existing) {
+      existing.meal.foods.push(food);
+      return;
+    }
+
+    meals.set(key, {
+      date,
+      meal: {
+        id: `meal-${crypto.randomUUID()}`,
+        mealType,
+        time: parseTime(record['time'] || '') || DEFAULT_MEAL_TIMES[mealType],
+        foods: [food],
+        notes: `Imported from ${FOOD_LOG_SOURCE_NAMES[source]}`,
+      },
+    });
+  });
+
+  return { source, meals: Array.from(meals.values()), skipped };
+}
+
+// Two meals are the same if they have the same type and foods, whatever their
+// ids and times
+export function mealFingerprint(meal: MealEntry): string {
+  const foods = meal.foods
+    .map(food => `${food.name.trim().toLowerCase()}:${Math.round(scaledFood(food).calories)}`)
+    .sort();
+  return `${meal.mealType}|${foods.join(',')}`;
+}
+
+function emptyEntry(date: string): DailyEntry {
+  return { date, meals: [], water: { glasses: 0, ounces: 0 }, tags: [] };
+}
+
+// Work out which meals are new and the entries to save for them. Nothing is
+// written here, so the same plan serves as the dry-run preview.
+export function planFoodLogImport(
+  parsed: ParsedFoodLog,
+  existingEntries: Map<string, DailyEntry>
+): { preview: FoodLogImportPreview; entries: DailyEntry[] } {
+  const byDate = new Map<string, MealEntry[]>();
+  for (const { date, meal } of parsed.meals) {
+    byDate.set(date, [...(byDate.get(date) || []), meal]);
+  }
+
+  const days: FoodLogDayPreview[] = [];
+  const entries: DailyEntry[] = [];
+  for (const date of Array.from(byDate.keys()).sort()) {
+    const current = existingEntries.get(date);
+    const known = new Set((current?.meals || []).map(mealFingerprint));
+    const imported = byDate.get(date)!;
+    const newMeals = imported.filter(meal => !known.has(mealFingerprint(meal)));
+
+    days.push({
+      date,
+      isNewDay: !current,
+      meals: newMeals.length,
+      duplicates: imported.length - newMeals.length,
+      calories: newMeals.reduce((sum, meal) =>
+        sum + meal.foods.reduce((mealSum, food) => mealSum + scaledFood(food).calories, 0), 0),
+    });
+
+    if (newMeals.length > 0) {
+      const entry = current || emptyEntry(date);
+      entries.push({ ...entry, meals: [...entry.meals, ...newMeals] });
+    }
+  }
+
+  return {
+    preview: {
+      source: parsed.source,
+      days,
+      meals: days.reduce((sum, day) => sum + day.meals, 0),
+      duplicates: days.reduce((sum, day) => sum + day.duplicates, 0),
+      skipped: parsed.skipped,
+    },
+    entries,
+  };
+}
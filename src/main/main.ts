@@ -2,16 +2,74 @@ import { app, BrowserWindow, ipcMain, dialog } from 'electron';
 import * as path from 'path';
 import * as fs from 'fs/promises';
 import * as fsSync from 'fs';
-import matter from 'gray-matter';
-import CryptoJS from 'crypto-js';
 import Store from 'electron-store';
-import { DailyEntrySchema, AppDataSchema, validateData } from './validation';
+import { DailyEntrySchema, DailyEntry, AppDataSchema, AppData, validateData } from './validation';
+import { encrypt, decrypt, clearKeyCache } from './encryption';
+import { createEntryRepository, EntryRepository } from './entryRepository';
+import { checkDataHealth, quarantineFiles } from './dataHealth';
+import { changePassword, resumePendingPasswordChange } from './passwordChange';
+import { savePassword, loadPassword, clearPassword, forgetPassword, migrateLegacyPasswordFile } from './savedPassword';
+import { backupAppData, listBackups, readBackup } from './backups';
+import {
+  findConflictCopies,
+  readDailyConflictCopy,
+  readAppDataConflictCopy,
+  mergeDailyEntries,
+  mergeAppData,
+  ConflictCopy,
+  ConflictChoices,
+  ConflictItem,
+  PendingConflict,
+} from './syncConflicts';
+import { writeFileAtomic, deleteFile } from './atomicWrite';
+import { createFolderWatcher, DataChange } from './folderWatcher';
+import { migrateAppData, APP_DATA_VERSION } from './migrations';
+import {
+  listProfiles,
+  ensureProfiles,
+  setActiveProfile,
+  createProfile,
+  setProfileDataPath,
+  deleteProfile,
+} from './profiles';
+import {
+  createArchive,
+  readArchive,
+  previewRestore,
+  restoreAppData,
+  restoreDailyEntry,
+  isSameEntry,
+  RestoreMode,
+  ARCHIVE_EXTENSION,
+} from './backupArchive';
+import { parseFoodLog, planFoodLogImport } from './foodLogImport';
+import { parseExport, resolveImportedEntry, ImportConflictPolicy } from './dataImport';
+import { summaryCsv, itemizedCsvFiles, ExportFormat, ItemizedExportOptions } from './dataExport';
+import { buildReportHtml, renderPdf } from './report';
+import { buildCalendar } from './calendarExport';
+import { withRecentMeals } from './recentMeals';
+import { createWriteLock } from './writeLock';
+import { createAutoLock, LockSettings, DEFAULT_LOCK_SETTINGS } from './autoLock';
 
 const store = new Store();
 let mainWindow: BrowserWindow | null = null;
-let dataPath: string | null = null;
+// The data folder of the active profile
+let activeProfileId = ensureProfiles(store.get('dataPath') as string | null).id;
+let dataPath: string | null = listProfiles().find(p => p.id === activeProfileId)!.dataPath;
+store.delete('dataPath'); // Now kept per profile
 let encryptionPassword: string | null = null;
-const PASSWORD_FILE = '.password';
+let entryRepository: EntryRepository | null = null;
+// Mirrors app-data's privacy.strictMetadata so daily files can be written without re-reading it
+let strictPrivacy = false;
+// Every write to app-data.json and the daily files goes through this lock
+const dataWrites = createWriteLock();
+
+const getLockSettings = (): LockSettings => ({
+  ...DEFAULT_LOCK_SETTINGS,
+  ...(store.get('lockSettings') as Partial<LockSettings> | undefined),
+});
+const autoLock = createAutoLock(getLockSettings, () => lockSession(true));
+const folderWatcher = createFolderWatcher(handleExternalChange);
 
 const createWindow = async () => {
   mainWindow = new BrowserWindow({
@@ -54,6 +112,12 @@ const createWindow = async () => {
     mainWindow.loadFile(prodIndexPath);
   }
 
+  mainWindow.on('minimize', () => {
+    if (getLockSettings().lockOnMinimize) {
+      lockSession(true);
+    }
+  });
+
   mainWindow.on('closed', () => {
     mainWindow = null;
   });
@@ -76,15 +140,6 @@ app.on('window-all-closed', () => {
 });
 
 // Helper functions
-function encrypt(text: string, password: string): string {
-  return CryptoJS.AES.encrypt(text, password).toString();
-}
-
-function decrypt(encryptedText: string, password: string): string {
-  const bytes = CryptoJS.AES.decrypt(encryptedText, password);
-  return bytes.toString(CryptoJS.enc.Utf8);
-}
-
 async function ensureDataPath() {
   if (!dataPath) {
     throw new Error('Data path not set. Please select a data folder first.');
@@ -93,6 +148,179 @@ async function ensureDataPath() {
   await fs.mkdir(path.join(dataPath, 'daily'), { recursive: true });
 }
 
+const DEFAULT_APP_DATA: AppData = {
+  goals: {
+    dailyCalories: 2000,
+    protein: 150,
+    carbs: 200,
+    fats: 65,
+    targetWeight: 180,
+    waterGlasses: 8,
+  },
+  savedFoods: [],
+  recipes: [],
+  mealTemplates: [],
+  recentMeals: [],
+  weightHistory: [],
+};
+
+async function readAppData(): Promise<AppData> {
+  await ensureDataPath();
+  const appDataPath = path.join(dataPath!, 'app-data.json');
+
+  if (!fsSync.existsSync(appDataPath)) {
+    return DEFAULT_APP_DATA;
+  }
+
+  const fileContent = await fs.readFile(appDataPath, 'utf-8');
+
+  let dataJson = fileContent;
+  if (encryptionPassword) {
+    dataJson = decrypt(fileContent, encryptionPassword);
+  }
+
+  // Checked like anything else that reaches the renderer: a hand-edited file
+  // must not pass as app data of the wrong shape
+  const validation = validateData(AppDataSchema, migrateAppData(JSON.parse(dataJson)));
+  if (!validation.success) {
+    throw new Error(`app-data.json could not be loaded. ${validation.error}`);
+  }
+
+  strictPrivacy = !!validation.data.privacy?.strictMetadata;
+  return validation.data;
+}
+
+// Every daily entry the app saves goes through the same validation
+async function saveDailyEntry(entry: unknown): Promise<{ success: true; entry: DailyEntry } | { success: false; error: string }> {
+  const validation = validateData(DailyEntrySchema, entry);
+  if (!validation.success) {
+    return validation;
+  }
+
+  const repository = await getEntryRepository();
+  return { success: true, entry: await repository.put(validation.data) };
+}
+
+// Null rather than defaults when the folder has no app data yet
+async function readExistingAppData(): Promise<AppData | null> {
+  await ensureDataPath();
+  return fsSync.existsSync(path.join(dataPath!, 'app-data.json')) ? readAppData() : null;
+}
+
+// Only call while holding dataWrites. The password is read then: a password
+// change may have finished meanwhile, or the session may have been locked.
+async function writeAppDataLocked(data: AppData) {
+  if (!encryptionPassword) {
+    throw new Error('The session was locked before the data could be saved');
+  }
+  const content = encrypt(JSON.stringify({ ...data, schemaVersion: APP_DATA_VERSION }, null, 2), encryptionPassword);
+
+  await backupAppData(dataPath!);
+  await writeFileAtomic(path.join(dataPath!, 'app-data.json'), content);
+  strictPrivacy = !!data.privacy?.strictMetadata;
+}
+
+// Read, change and write app data as one step under the write lock, so a save
+// running at the same time is neither overwritten nor lost. The change gets
+// null when the folder has no app data yet; returning null or the data it was
+// given unchanged skips the write.
+async function updateAppData(change: (current: AppData | null) => AppData | null): Promise<void> {
+  await ensureDataPath();
+  await dataWrites.run(async () => {
+    const current = await readExistingAppData();
+    const updated = change(current);
+    if (updated && updated !== current) {
+      await writeAppDataLocked(updated);
+    }
+  });
+}
+
+// Merge a sync conflict copy into its target file and delete the copy. Without
+// choices it is only merged when nothing needs a decision.
+async function mergeConflictCopy(
+  copy: ConflictCopy,
+  choices: ConflictChoices | null
+): Promise<{ applied: boolean; conflicts: ConflictItem[] }> {
+  let change: DataChange;
+  if (copy.kind === 'daily') {
+    const repository = await getEntryRepository();
+    const date = path.basename(copy.target, '.md');
+    change = { kind: 'daily', date };
+    const incoming = await readDailyConflictCopy(dataPath!, copy, encryptionPassword);
+    const { merged, conflicts } = mergeDailyEntries(await repository.get(date), { ...incoming, date }, choices || {});
+    if (conflicts.length > 0 && !choices) {
+      return { applied: false, conflicts };
+    }
+    await repository.put(merged);
+  } else {
+    change = { kind: 'appData' };
+    const incoming = await readAppDataConflictCopy(dataPath!, copy, encryptionPassword);
+    let unresolved: ConflictItem[] = [];
+    await updateAppData((current) => {
+      const { merged, conflicts } = mergeAppData(current, incoming, choices || {});
+      if (conflicts.length > 0 && !choices) {
+        unresolved = conflicts;
+        return null;
+      }
+      return { ...merged, privacy: { strictMetadata: strictPrivacy } };
+    });
+    if (unresolved.length > 0) {
+      return { applied: false, conflicts: unresolved };
+    }
+  }
+
+  await deleteFile(path.join(dataPath!, copy.file));
+  // Our own writes are not reported by the watcher, but the renderer needs to reload
+  mainWindow?.webContents.send('data-changed', change);
+  return { applied: true, conflicts: [] };
+}
+
+// Bring main-process state up to date with a file changed outside the app,
+// then let the renderer reload what it shows
+async function handleExternalChange(change: DataChange) {
+  try {
+    if (change.kind === 'daily' && entryRepository) {
+      await entryRepository.reload(change.date);
+    } else if (change.kind === 'appData') {
+      await readAppData(); // Picks up a privacy mode changed on another computer
+    }
+  } catch (error) {
+    console.error('Error reloading changed data:', error);
+  }
+
+  mainWindow?.webContents.send('data-changed', change);
+}
+
+// Drop the key and everything decrypted with it. The data path is kept so the
+// renderer can offer to unlock the same folder.
+function lockSession(notifyRenderer: boolean) {
+  if (!encryptionPassword) return;
+
+  encryptionPassword = null;
+  entryRepository = null;
+  clearKeyCache();
+  autoLock.stop();
+  folderWatcher.stop();
+
+  if (notifyRenderer) {
+    mainWindow?.webContents.send('session-locked');
+  }
+}
+
+// The repository is tied to one folder and password; it is rebuilt when either changes
+async function getEntryRepository(): Promise<EntryRepository> {
+  await ensureDataPath();
+  if (!entryRepository) {
+    entryRepository = createEntryRepository({
+      dailyPath: path.join(dataPath!, 'daily'),
+      getPassword: () => encryptionPassword,
+      isStrictPrivacy: () => strictPrivacy,
+      writeLock: dataWrites,
+    });
+  }
+  return entryRepository;
+}
+
 // IPC Handlers
 
 // Select data folder
@@ -105,11 +333,12 @@ ipcMain.handle('select-data-folder', async () => {
 
   if (!result.canceled && result.filePaths.length > 0) {
     dataPath = result.filePaths[0];
+    entryRepository = null;
     await fs.mkdir(dataPath, { recursive: true });
     await fs.mkdir(path.join(dataPath, 'daily'), { recursive: true });
 
     // Persist the data path
-    store.set('dataPath', dataPath);
+    setProfileDataPath(activeProfileId, dataPath);
 
     return dataPath;
   }
@@ -117,40 +346,88 @@ ipcMain.handle('select-data-folder', async () => {
 });
 
 // Get data path
-ipcMain.handle('get-data-path', () => {
-  // If not in memory, try to load from persistent storage
-  if (!dataPath) {
-    dataPath = store.get('dataPath') as string | null;
+ipcMain.handle('get-data-path', () => dataPath);
+
+// Profiles
+ipcMain.handle('get-profiles', () => ({ profiles: listProfiles(), activeProfileId }));
+
+ipcMain.handle('create-profile', (event, name: string) => {
+  try {
+    return { success: true, profile: createProfile(name) };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+});
+
+// Close the current session and make another profile active; the renderer then
+// asks for that profile's password (or uses the remembered one)
+ipcMain.handle('switch-profile', (event, id: string) => {
+  try {
+    const profile = setActiveProfile(id);
+    lockSession(false);
+    activeProfileId = profile.id;
+    dataPath = profile.dataPath;
+    entryRepository = null;
+    strictPrivacy = false;
+    return { success: true, profile };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+});
+
+// Remove a profile that is not in use. Its data folder is kept, but a password
+// remembered for it is forgotten unless another profile uses the same folder.
+ipcMain.handle('delete-profile', (event, id: string) => {
+  try {
+    if (id === activeProfileId && encryptionPassword) {
+      throw new Error('Log out of this profile before removing it');
+    }
+
+    const profile = listProfiles().find(p => p.id === id);
+    deleteProfile(id);
+
+    const remaining = listProfiles();
+    if (profile?.dataPath && !remaining.some(p => p.dataPath === profile.dataPath)) {
+      clearPassword(profile.dataPath);
+    }
+
+    if (id === activeProfileId) {
+      activeProfileId = ensureProfiles(null).id;
+      dataPath = remaining.find(p => p.id === activeProfileId)!.dataPath;
+      entryRepository = null;
+    }
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
   }
-  return dataPath;
 });
 
 // Password management
 ipcMain.handle('set-password', async (event, password: string, remember: boolean) => {
+  if (password !== encryptionPassword) {
+    entryRepository = null;
+  }
   encryptionPassword = password;
 
+  // Reported back so the user knows when "Remember me" did not work
+  let remembered = false;
   if (remember && dataPath) {
     try {
-      const passwordPath = path.join(dataPath, PASSWORD_FILE);
-      // Encrypt the password before saving
-      const encrypted = encrypt(password, app.getName());
-      await fs.writeFile(passwordPath, encrypted, 'utf-8');
+      remembered = savePassword(dataPath, password);
     } catch (error) {
       console.error('Error saving password:', error);
     }
   }
 
-  return true;
+  return { success: true, remembered };
 });
 
 ipcMain.handle('get-saved-password', async () => {
   if (!dataPath) return null;
 
   try {
-    const passwordPath = path.join(dataPath, PASSWORD_FILE);
-    const encrypted = await fs.readFile(passwordPath, 'utf-8');
-    const decrypted = decrypt(encrypted, app.getName());
-    return decrypted;
+    const migrated = await migrateLegacyPasswordFile(dataPath);
+    return migrated ?? loadPassword(dataPath);
   } catch (error) {
     return null;
   }
@@ -160,8 +437,7 @@ ipcMain.handle('clear-saved-password', async () => {
   if (!dataPath) return false;
 
   try {
-    const passwordPath = path.join(dataPath, PASSWORD_FILE);
-    await fs.unlink(passwordPath);
+    await forgetPassword(dataPath);
     return true;
   } catch (error) {
     return false;
@@ -172,8 +448,12 @@ ipcMain.handle('verify-password', async (event, password: string) => {
   try {
     await ensureDataPath();
 
+    // Finish (or roll back) a password change that was interrupted
+    await resumePendingPasswordChange(dataPath!);
+
     // Check if app-data.json exists and try to decrypt it
     const appDataPath = path.join(dataPath!, 'app-data.json');
+    let appData: Partial<AppData> = {};
 
     if (fsSync.existsSync(appDataPath)) {
       const fileContent = await fs.readFile(appDataPath, 'utf-8');
@@ -181,66 +461,89 @@ ipcMain.handle('verify-password', async (event, password: string) => {
       try {
         // Try to decrypt
         const decrypted = decrypt(fileContent, password);
-        JSON.parse(decrypted); // Verify it's valid JSON
-        encryptionPassword = password;
-        return true;
+        appData = JSON.parse(decrypted); // Verify it's valid JSON
       } catch (error) {
         return false;
       }
-    } else {
-      // No data yet, accept any password
-      encryptionPassword = password;
-      return true;
     }
+
+    // Password matches (or there is no data yet, so any password is accepted)
+    encryptionPassword = password;
+    strictPrivacy = !!appData.privacy?.strictMetadata;
+    entryRepository = null;
+    autoLock.start();
+    folderWatcher.start(dataPath!);
+
+    try {
+      // Load the entry index up front so the first query is fast
+      const { errors } = await (await getEntryRepository()).list();
+      if (errors.length > 0) {
+        console.warn(`${errors.length} daily file(s) could not be loaded`);
+      }
+    } catch (error) {
+      // The next query will retry loading
+      entryRepository = null;
+      console.error('Error loading daily entries:', error);
+    }
+
+    return true;
   } catch (error) {
     return false;
   }
 });
 
-// Get daily entries
-ipcMain.handle('get-daily-entries', async (event, startDate?: string, endDate?: string) => {
+// Session locking
+ipcMain.handle('lock-session', () => {
+  lockSession(false);
+  return true;
+});
+
+ipcMain.handle('get-lock-settings', () => getLockSettings());
+
+ipcMain.handle('save-lock-settings', (event, settings: LockSettings) => {
+  store.set('lockSettings', {
+    idleMinutes: Math.max(0, Math.floor(Number(settings.idleMinutes) || 0)),
+    lockOnMinimize: !!settings.lockOnMinimize,
+  });
+  return { success: true };
+});
+
+// Change password and re-encrypt the data folder
+ipcMain.handle('change-password', async (event, oldPassword: string, newPassword: string) => {
   try {
     await ensureDataPath();
-    const dailyPath = path.join(dataPath!, 'daily');
-    const files = await fs.readdir(dailyPath);
-    const mdFiles = files.filter(f => f.endsWith('.md'));
-
-    const entries = await Promise.all(
-      mdFiles.map(async (file) => {
-        const filePath = path.join(dailyPath, file);
-        const fileContent = await fs.readFile(filePath, 'utf-8');
-        const { data, content } = matter(fileContent);
-
-        let entryContent = content;
-        if (encryptionPassword) {
-          try {
-            entryContent = decrypt(content, encryptionPassword);
-          } catch (error) {
-            entryContent = '[Unable to decrypt entry]';
-          }
-        }
 
-        // Parse the markdown content back to JSON
-        const entry = JSON.parse(entryContent);
-
-        return {
-          ...entry,
-          id: file.replace('.md', ''),
-          date: data.date || entry.date,
-        };
-      })
-    );
-
-    // Filter by date range if provided
-    let filtered = entries;
-    if (startDate) {
-      filtered = filtered.filter(e => e.date >= startDate);
+    if (oldPassword !== encryptionPassword) {
+      return { success: false, error: 'Current password is incorrect' };
+    }
+    if (!newPassword.trim()) {
+      return { success: false, error: 'New password cannot be empty' };
     }
-    if (endDate) {
-      filtered = filtered.filter(e => e.date <= endDate);
+
+    // Saves made meanwhile wait, then use the new password
+    await dataWrites.run(async () => {
+      await changePassword(dataPath!, oldPassword, newPassword);
+      encryptionPassword = newPassword;
+    });
+    entryRepository = null;
+
+    // Keep a remembered password in sync with the new one
+    if (loadPassword(dataPath!) !== null) {
+      savePassword(dataPath!, newPassword);
     }
 
-    return filtered.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+    return { success: true };
+  } catch (error) {
+    console.error('Error changing password:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+});
+
+// Get daily entries
+ipcMain.handle('get-daily-entries', async (event, startDate?: string, endDate?: string) => {
+  try {
+    const repository = await getEntryRepository();
+    return await repository.query({ startDate, endDate });
   } catch (error) {
     console.error('Error getting daily entries:', error);
     return [];
@@ -250,54 +553,93 @@ ipcMain.handle('get-daily-entries', async (event, startDate?: string, endDate?:
 // Save daily entry
 ipcMain.handle('save-daily-entry', async (event, entry: unknown) => {
   try {
-    await ensureDataPath();
+    const result = await saveDailyEntry(entry);
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
 
-    // Validate input data
-    const validation = validateData(DailyEntrySchema, entry);
-    if (!validation.success) {
-      return { success: false, error: validation.error };
+    // The day is saved at this point, so failing to update the recent meals
+    // must not report the save as failed
+    try {
+      await updateAppData((current) => {
+        const appData = current ?? DEFAULT_APP_DATA;
+        const recentMeals = withRecentMeals(appData.recentMeals, result.entry.meals);
+        return recentMeals === appData.recentMeals ? appData : { ...appData, recentMeals };
+      });
+    } catch (error) {
+      console.error('Error updating recent meals:', error);
     }
 
-    const validatedEntry = validation.data;
-    const fileName = `${validatedEntry.date}.md`;
-    const dailyPath = path.join(dataPath!, 'daily');
-    const filePath = path.join(dailyPath, fileName);
+    return { success: true, id: result.entry.date };
+  } catch (error) {
+    console.error('Error saving daily entry:', error);
+    return { success: false, error: String(error) };
+  }
+});
 
-    // Convert entry to JSON string
-    const contentJson = JSON.stringify(validatedEntry, null, 2);
+// Import meals from another tracker's CSV export
+ipcMain.handle('select-food-log-file', async () => {
+  const result = await dialog.showOpenDialog({
+    properties: ['openFile'],
+    filters: [{ name: 'CSV', extensions: ['csv'] }],
+  });
+  return result.canceled || result.filePaths.length === 0 ? null : result.filePaths[0];
+});
 
-    // Encrypt if password is set
-    let content = contentJson;
-    if (encryptionPassword) {
-      content = encrypt(contentJson, encryptionPassword);
-    }
+async function planFoodLogFromFile(filePath: string) {
+  const parsed = parseFoodLog(await fs.readFile(filePath, 'utf-8'));
+  const repository = await getEntryRepository();
 
-    const frontmatter = {
-      date: validatedEntry.date,
-      totalCalories: validatedEntry.meals.reduce((sum: number, meal) =>
-        sum + meal.foods.reduce((mSum: number, food) => mSum + food.calories, 0), 0
-      ),
-      encrypted: !!encryptionPassword,
-    };
+  const existing = new Map<string, DailyEntry>();
+  for (const date of new Set(parsed.meals.map(({ date }) => date))) {
+    const entry = await repository.get(date);
+    if (entry) existing.set(date, entry);
+  }
 
-    const fileContent = matter.stringify(content, frontmatter);
-    await fs.writeFile(filePath, fileContent, 'utf-8');
+  return planFoodLogImport(parsed, existing);
+}
 
-    return { success: true, id: validatedEntry.date };
+// Dry run: what importing the file would add, without writing anything
+ipcMain.handle('preview-food-log-import', async (event, filePath: string) => {
+  try {
+    const { preview } = await planFoodLogFromFile(filePath);
+    return { success: true, preview };
   } catch (error) {
-    console.error('Error saving daily entry:', error);
-    return { success: false, error: String(error) };
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+});
+
+ipcMain.handle('import-food-log', async (event, filePath: string) => {
+  try {
+    const { preview, entries } = await planFoodLogFromFile(filePath);
+
+    const newMeals = new Map(preview.days.map(day => [day.date, day.meals]));
+    let days = 0;
+    let meals = 0;
+    const failed: { date: string; error: string }[] = [];
+    for (const entry of entries) {
+      const result = await saveDailyEntry(entry);
+      if (result.success) {
+        days++;
+        meals += newMeals.get(entry.date) || 0;
+        mainWindow?.webContents.send('data-changed', { kind: 'daily', date: entry.date });
+      } else {
+        failed.push({ date: entry.date, error: result.error });
+      }
+    }
+
+    return { success: true, days, meals, duplicates: preview.duplicates, failed };
+  } catch (error) {
+    console.error('Error importing food log:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
   }
 });
 
 // Delete daily entry
 ipcMain.handle('delete-daily-entry', async (event, entryId: string) => {
   try {
-    await ensureDataPath();
-    const fileName = `${entryId}.md`;
-    const dailyPath = path.join(dataPath!, 'daily');
-    const filePath = path.join(dailyPath, fileName);
-    await fs.unlink(filePath);
+    const repository = await getEntryRepository();
+    await repository.delete(entryId);
     return { success: true };
   } catch (error) {
     console.error('Error deleting daily entry:', error);
@@ -308,34 +650,7 @@ ipcMain.handle('delete-daily-entry', async (event, entryId: string) => {
 // Get app data (goals, saved foods, etc.)
 ipcMain.handle('get-app-data', async () => {
   try {
-    await ensureDataPath();
-    const appDataPath = path.join(dataPath!, 'app-data.json');
-
-    if (!fsSync.existsSync(appDataPath)) {
-      // Return default data
-      return {
-        goals: {
-          dailyCalories: 2000,
-          protein: 150,
-          carbs: 200,
-          fats: 65,
-          targetWeight: 180,
-          waterGlasses: 8,
-        },
-        savedFoods: [],
-        recentMeals: [],
-        weightHistory: [],
-      };
-    }
-
-    const fileContent = await fs.readFile(appDataPath, 'utf-8');
-
-    let dataJson = fileContent;
-    if (encryptionPassword) {
-      dataJson = decrypt(fileContent, encryptionPassword);
-    }
-
-    return JSON.parse(dataJson);
+    return await readAppData();
   } catch (error) {
     console.error('Error getting app data:', error);
     return null;
@@ -345,22 +660,20 @@ ipcMain.handle('get-app-data', async () => {
 // Save app data
 ipcMain.handle('save-app-data', async (event, data: unknown) => {
   try {
-    await ensureDataPath();
-
     // Validate input data
     const validation = validateData(AppDataSchema, data);
     if (!validation.success) {
       return { success: false, error: validation.error };
     }
 
-    const appDataPath = path.join(dataPath!, 'app-data.json');
-    let content = JSON.stringify(validation.data, null, 2);
-
-    if (encryptionPassword) {
-      content = encrypt(content, encryptionPassword);
-    }
-
-    await fs.writeFile(appDataPath, content, 'utf-8');
+    // The privacy mode is only changed through set-strict-privacy, which also
+    // rewrites the daily files, so a stale copy from the renderer cannot flip it.
+    // Recent meals are kept by save-daily-entry, so the stored list wins too.
+    await updateAppData((current) => ({
+      ...validation.data,
+      recentMeals: current?.recentMeals ?? validation.data.recentMeals,
+      privacy: { strictMetadata: strictPrivacy },
+    }));
     return { success: true };
   } catch (error) {
     console.error('Error saving app data:', error);
@@ -368,144 +681,330 @@ ipcMain.handle('save-app-data', async (event, data: unknown) => {
   }
 });
 
+// Switch strict privacy on or off and rewrite every daily file to match
+ipcMain.handle('set-strict-privacy', async (event, enabled: boolean) => {
+  try {
+    await updateAppData((current) => ({ ...(current ?? DEFAULT_APP_DATA), privacy: { strictMetadata: enabled } }));
+
+    const repository = await getEntryRepository();
+    const { rewritten, errors } = await repository.rewriteAll();
+
+    return {
+      success: errors.length === 0,
+      rewritten,
+      error: errors.length > 0
+        ? `${errors.length} daily file(s) could not be read and were left unchanged`
+        : undefined,
+    };
+  } catch (error) {
+    console.error('Error changing privacy mode:', error);
+    return { success: false, rewritten: 0, error: String(error) };
+  }
+});
+
 // Search entries
 ipcMain.handle('search-entries', async (event, query: string, tags: string[]) => {
+  try {
+    const repository = await getEntryRepository();
+    return await repository.query({ text: query, tags });
+  } catch (error) {
+    console.error('Error searching entries:', error);
+    return [];
+  }
+});
+
+// Data health check
+ipcMain.handle('check-data-health', async () => {
   try {
     await ensureDataPath();
-    const dailyPath = path.join(dataPath!, 'daily');
-    const files = await fs.readdir(dailyPath);
-    const mdFiles = files.filter(f => f.endsWith('.md'));
-
-    const allEntries = await Promise.all(
-      mdFiles.map(async (file) => {
-        const filePath = path.join(dailyPath, file);
-        const fileContent = await fs.readFile(filePath, 'utf-8');
-        const { data, content } = matter(fileContent);
-
-        let entryContent = content;
-        if (encryptionPassword) {
-          try {
-            entryContent = decrypt(content, encryptionPassword);
-          } catch (error) {
-            entryContent = '[Unable to decrypt entry]';
-          }
-        }
+    return await checkDataHealth(dataPath!, encryptionPassword);
+  } catch (error) {
+    console.error('Error checking data health:', error);
+    return null;
+  }
+});
 
-        const entry = JSON.parse(entryContent);
-        return {
-          ...entry,
-          id: file.replace('.md', ''),
-          date: data.date || entry.date,
-        };
-      })
-    );
-
-    let filtered = allEntries;
-
-    if (query && query.trim()) {
-      const lowerQuery = query.toLowerCase();
-      filtered = filtered.filter((entry: any) =>
-        entry.notes?.toLowerCase().includes(lowerQuery) ||
-        entry.meals.some((meal: any) =>
-          meal.foods.some((food: any) =>
-            food.name.toLowerCase().includes(lowerQuery)
-          )
-        )
-      );
+// Move unreadable files to the quarantine folder
+ipcMain.handle('quarantine-files', async (event, files: string[]) => {
+  try {
+    await ensureDataPath();
+    const result = await quarantineFiles(dataPath!, files);
+
+    // Reload entries so quarantined days disappear from the index
+    entryRepository = null;
+
+    return { success: result.failed.length === 0, ...result };
+  } catch (error) {
+    console.error('Error quarantining files:', error);
+    return { success: false, moved: [], failed: [], error: String(error) };
+  }
+});
+
+// Merge every sync conflict copy that needs no decision and list the rest
+ipcMain.handle('get-sync-conflicts', async () => {
+  const result = {
+    merged: [] as string[],
+    pending: [] as PendingConflict[],
+    failed: [] as { file: string; reason: string }[],
+  };
+
+  try {
+    await ensureDataPath();
+    for (const copy of await findConflictCopies(dataPath!)) {
+      try {
+        const { applied, conflicts } = await mergeConflictCopy(copy, null);
+        if (applied) {
+          result.merged.push(copy.file);
+        } else {
+          result.pending.push({ ...copy, items: conflicts });
+        }
+      } catch (error) {
+        // Unreadable copies show up in Data Health instead
+        result.failed.push({ file: copy.file, reason: String(error) });
+      }
     }
+  } catch (error) {
+    console.error('Error checking sync conflicts:', error);
+  }
+
+  return result;
+});
 
-    if (tags && tags.length > 0) {
-      filtered = filtered.filter((entry: any) =>
-        tags.some(tag => entry.tags.includes(tag))
-      );
+// Merge one conflict copy using the user's choice for each conflicting item
+ipcMain.handle('resolve-sync-conflict', async (event, file: string, choices: ConflictChoices) => {
+  try {
+    await ensureDataPath();
+    const copy = (await findConflictCopies(dataPath!)).find(c => c.file === file);
+    if (!copy) {
+      return { success: false, error: 'The conflict copy no longer exists' };
     }
 
-    return filtered;
+    await mergeConflictCopy(copy, choices);
+    return { success: true };
   } catch (error) {
-    console.error('Error searching entries:', error);
+    console.error('Error resolving sync conflict:', error);
+    return { success: false, error: String(error) };
+  }
+});
+
+// Snapshots of app-data.json, newest first
+ipcMain.handle('list-backups', async () => {
+  try {
+    await ensureDataPath();
+    return await listBackups(dataPath!);
+  } catch (error) {
+    console.error('Error listing backups:', error);
     return [];
   }
 });
 
+// Replace app-data.json with a backup. The current version is backed up first,
+// so a restore can itself be undone.
+ipcMain.handle('restore-backup', async (event, file: string) => {
+  try {
+    await ensureDataPath();
+    const data = await readBackup(dataPath!, file, encryptionPassword);
+
+    await dataWrites.run(async () => {
+      await backupAppData(dataPath!, { force: true });
+      // Daily files are written for the current privacy mode, so keep it
+      await writeAppDataLocked({ ...data, privacy: { strictMetadata: strictPrivacy } });
+    });
+    return { success: true };
+  } catch (error) {
+    console.error('Error restoring backup:', error);
+    return { success: false, error: String(error) };
+  }
+});
+
+// Full backup archive: app data and every daily entry in one file, encrypted
+// with a password chosen for the archive
+ipcMain.handle('export-backup-archive', async (event, archivePassword: string) => {
+  if (!archivePassword) {
+    return { success: false, error: 'Please choose a password for the backup' };
+  }
+
+  const result = await dialog.showSaveDialog({
+    defaultPath: `calorie-tracker-backup-${new Date().toISOString().split('T')[0]}.${ARCHIVE_EXTENSION}`,
+    filters: [{ name: 'Calorie Tracker Backup', extensions: [ARCHIVE_EXTENSION] }],
+  });
+
+  if (result.canceled || !result.filePath) {
+    return { success: false, canceled: true };
+  }
+
+  try {
+    const appData = await readAppData();
+    const { entries } = await (await getEntryRepository()).list();
+    await writeFileAtomic(result.filePath, createArchive(appData, entries, archivePassword));
+    return { success: true, entries: entries.length };
+  } catch (error) {
+    console.error('Error exporting backup archive:', error);
+    return { success: false, error: String(error) };
+  }
+});
+
+ipcMain.handle('select-backup-archive', async () => {
+  const result = await dialog.showOpenDialog({
+    properties: ['openFile'],
+    filters: [{ name: 'Calorie Tracker Backup', extensions: [ARCHIVE_EXTENSION] }],
+  });
+  return result.canceled || result.filePaths.length === 0 ? null : result.filePaths[0];
+});
+
+// Decrypt an archive and report what restoring it would change
+ipcMain.handle('preview-backup-archive', async (event, filePath: string, archivePassword: string) => {
+  try {
+    const archive = readArchive(await fs.readFile(filePath, 'utf-8'), archivePassword);
+    const { entries } = await (await getEntryRepository()).list();
+    return { success: true, preview: previewRestore(archive, await readExistingAppData(), entries) };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+});
+
+ipcMain.handle('restore-backup-archive', async (event, filePath: string, archivePassword: string, mode: RestoreMode) => {
+  try {
+    const archive = readArchive(await fs.readFile(filePath, 'utf-8'), archivePassword);
+    const repository = await getEntryRepository();
+
+    // The current app data stays available from the backups folder
+    await backupAppData(dataPath!, { force: true });
+    await updateAppData((current) => ({
+      ...restoreAppData(current, archive.appData, mode),
+      privacy: { strictMetadata: strictPrivacy },
+    }));
+
+    let daysWritten = 0;
+    for (const entry of archive.entries) {
+      const current = await repository.get(entry.date);
+      if (current && isSameEntry(current, entry)) continue;
+
+      await repository.put(restoreDailyEntry(current, entry, mode));
+      mainWindow?.webContents.send('data-changed', { kind: 'daily', date: entry.date });
+      daysWritten++;
+    }
+
+    return { success: true, daysWritten };
+  } catch (error) {
+    console.error('Error restoring backup archive:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+});
+
+// Import a file written by export-data. Days that already exist are skipped,
+// overwritten or merged according to the policy.
+ipcMain.handle('import-data', async (event, policy: ImportConflictPolicy) => {
+  const result = await dialog.showOpenDialog({
+    properties: ['openFile'],
+    filters: [{ name: 'Calorie Tracker Export', extensions: ['json', 'csv'] }],
+  });
+
+  if (result.canceled || result.filePaths.length === 0) {
+    return { success: false, canceled: true };
+  }
+
+  try {
+    const parsed = parseExport(await fs.readFile(result.filePaths[0], 'utf-8'));
+    const repository = await getEntryRepository();
+
+    let imported = 0;
+    let skipped = 0;
+    const invalid = [...parsed.invalid];
+    for (const incoming of parsed.entries) {
+      const entry = resolveImportedEntry(await repository.get(incoming.date), incoming, policy);
+      if (!entry) {
+        skipped++;
+        continue;
+      }
+
+      const saved = await saveDailyEntry(entry);
+      if (saved.success) {
+        imported++;
+        mainWindow?.webContents.send('data-changed', { kind: 'daily', date: entry.date });
+      } else {
+        invalid.push({ day: entry.date, error: saved.error });
+      }
+    }
+
+    return { success: true, format: parsed.format, imported, skipped, invalid };
+  } catch (error) {
+    console.error('Error importing data:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+});
+
+const EXPORT_FILTER_NAMES: Record<string, string> = { csv: 'CSV', json: 'JSON', ics: 'iCalendar' };
+
+// PDF report of a date range, for sharing with a coach
+ipcMain.handle('export-report', async (event, startDate: string, endDate: string) => {
+  const result = await dialog.showSaveDialog({
+    defaultPath: `nutrition-report-${startDate}-to-${endDate}.pdf`,
+    filters: [{ name: 'PDF', extensions: ['pdf'] }],
+  });
+
+  if (result.canceled || !result.filePath) {
+    return { success: false, canceled: true };
+  }
+
+  try {
+    const repository = await getEntryRepository();
+    const entries = await repository.query({ startDate, endDate });
+    const html = buildReportHtml({ startDate, endDate, entries, appData: await readAppData() });
+    await writeFileAtomic(result.filePath, await renderPdf(html));
+    return { success: true };
+  } catch (error) {
+    console.error('Error creating report:', error);
+    return { success: false, error: String(error) };
+  }
+});
+
 // Export data
-ipcMain.handle('export-data', async (event, format: 'csv' | 'json', startDate: string, endDate: string) => {
+ipcMain.handle('export-data', async (
+  event,
+  format: ExportFormat,
+  startDate: string,
+  endDate: string,
+  options: ItemizedExportOptions = { includeExercise: false, includeWater: false }
+) => {
+  const extension = format === 'json' || format === 'ics' ? format : 'csv';
   const result = await dialog.showSaveDialog({
-    defaultPath: `calorie-tracker-export.${format}`,
+    defaultPath: `calorie-tracker-${format === 'csv-itemized' ? 'foods' : 'export'}.${extension}`,
     filters: [
-      { name: format === 'csv' ? 'CSV' : 'JSON', extensions: [format] },
+      { name: EXPORT_FILTER_NAMES[extension], extensions: [extension] },
     ],
   });
 
   if (!result.canceled && result.filePath) {
     try {
-      await ensureDataPath();
-      const dailyPath = path.join(dataPath!, 'daily');
-      const files = await fs.readdir(dailyPath);
-      const mdFiles = files.filter(f => f.endsWith('.md'));
-
-      const allEntries = await Promise.all(
-        mdFiles.map(async (file) => {
-          const filePath = path.join(dailyPath, file);
-          const fileContent = await fs.readFile(filePath, 'utf-8');
-          const { data, content } = matter(fileContent);
-
-          let entryContent = content;
-          if (encryptionPassword) {
-            try {
-              entryContent = decrypt(content, encryptionPassword);
-            } catch (error) {
-              entryContent = '[Unable to decrypt entry]';
-            }
-          }
-
-          const entry = JSON.parse(entryContent);
-          return {
-            ...entry,
-            id: file.replace('.md', ''),
-            date: data.date || entry.date,
-          };
-        })
-      );
-
-      // Filter by date range
-      let entries = allEntries;
-      if (startDate) {
-        entries = entries.filter(e => e.date >= startDate);
-      }
-      if (endDate) {
-        entries = entries.filter(e => e.date <= endDate);
-      }
-      entries = entries.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+      const repository = await getEntryRepository();
+      const entries = await repository.query({ startDate, endDate });
 
+      const files: string[] = [];
       if (format === 'json') {
-        await fs.writeFile(result.filePath, JSON.stringify(entries, null, 2), 'utf-8');
+        await writeFileAtomic(result.filePath, JSON.stringify(entries, null, 2));
+        files.push(result.filePath);
+      } else if (format === 'ics') {
+        await writeFileAtomic(result.filePath, buildCalendar(entries));
+        files.push(result.filePath);
+      } else if (format === 'csv') {
+        await writeFileAtomic(result.filePath, summaryCsv(entries));
+        files.push(result.filePath);
       } else {
-        // CSV format
-        let csv = 'Date,Total Calories,Protein,Carbs,Fats,Exercise Calories,Weight,Water Glasses\n';
-
-        entries.forEach((entry: any) => {
-          const totals = entry.meals.reduce((acc: any, meal: any) => {
-            meal.foods.forEach((food: any) => {
-              acc.calories += food.calories;
-              acc.protein += food.protein;
-              acc.carbs += food.carbs;
-              acc.fats += food.fats;
-            });
-            return acc;
-          }, { calories: 0, protein: 0, carbs: 0, fats: 0 });
-
-          csv += `${entry.date},${totals.calories},${totals.protein},${totals.carbs},${totals.fats},${entry.exercise?.caloriesBurned || 0},${entry.weight || ''},${entry.water.glasses}\n`;
-        });
-
-        await fs.writeFile(result.filePath, csv, 'utf-8');
+        const { dir, name, ext } = path.parse(result.filePath);
+        for (const { suffix, content } of itemizedCsvFiles(entries, options)) {
+          const filePath = path.join(dir, `${name}${suffix}${ext}`);
+          await writeFileAtomic(filePath, content);
+          files.push(filePath);
+        }
       }
 
-      return { success: true };
+      return { success: true, files };
     } catch (error) {
       console.error('Error exporting data:', error);
-      return { success: false };
+      return { success: false, error: String(error) };
     }
   }
 
-  return { success: false };
+  return { success: false, canceled: true };
 });
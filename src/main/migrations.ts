@@ -0,0 +1,95 @@
+// Stored documents carry a schemaVersion. Files from before versioning count as
+// version 1. On load, each document is passed through the migrations from its
+// own version up to the current one, before it is validated. Migrated documents
+// are written back with the current version the next time they are saved.
+//
+// To change the stored format: update the schema in src/shared/schemas.ts and
+// append a migration that upgrades the previous version. Never edit or remove
+// a migration once it has been released.
+
+import { parseServingSize } from '../shared/servings';
+
+type Document = Record<string, unknown>;
+type Migration = (doc: Document) => Document;
+
+// Free-text servingSize becomes a structured serving. Text that can't be read
+// as an amount and unit ("1 medium") is kept as the serving's label.
+function migrateServingSize(food: Document): Document {
+  const { servingSize, ...rest } = food;
+  if (typeof servingSize !== 'string' || !servingSize.trim()) {
+    return rest;
+  }
+
+  const serving = parseServingSize(servingSize);
+  return serving
+    ? { ...rest, serving }
+    : { ...rest, servingLabel: servingSize.trim() };
+}
+
+function migrateMealServings(meal: Document): Document {
+  return Array.isArray(meal.foods) ? { ...meal, foods: meal.foods.map(migrateServingSize) } : meal;
+}
+
+// MIGRATIONS[n] upgrades a document from version n + 1 to version n + 2
+const APP_DATA_MIGRATIONS: Migration[] = [
+  // 1 -> 2: introduces schemaVersion; the stored data itself is unchanged
+  (doc) => doc,
+  // 2 -> 3: servingSize text becomes { amount, unit }
+  (doc) => ({
+    ...doc,
+    savedFoods: Array.isArray(doc.savedFoods) ? doc.savedFoods.map(migrateServingSize) : doc.savedFoods,
+    recentMeals: Array.isArray(doc.recentMeals) ? doc.recentMeals.map(migrateMealServings) : doc.recentMeals,
+  }),
+  // 3 -> 4: adds recipes
+  (doc) => ({ ...doc, recipes: doc.recipes ?? [] }),
+  // 4 -> 5: adds meal templates
+  (doc) => ({ ...doc, mealTemplates: doc.mealTemplates ?? [] }),
+];
+
+const DAILY_ENTRY_MIGRATIONS: Migration[] = [
+  // 1 -> 2: introduces schemaVersion; the stored data itself is unchanged
+  (doc) => doc,
+  // 2 -> 3: servingSize text becomes { amount, unit }
+  (doc) => (Array.isArray(doc.meals) ? { ...doc, meals: doc.meals.map(migrateMealServings) } : doc),
+];
+
+export const APP_DATA_VERSION = APP_DATA_MIGRATIONS.length + 1;
+export const DAILY_ENTRY_VERSION = DAILY_ENTRY_MIGRATIONS.length + 1;
+
+export class UnsupportedVersionError extends Error {
+  constructor(version: number, supported: number) {
+    super(`Data was saved by a newer version of the app (format ${version}, this version supports up to ${supported}). Please update the app.`);
+    this.name = 'UnsupportedVersionError';
+  }
+}
+
+function migrate(data: unknown, migrations: Migration[]): unknown {
+  // Anything that is not an object is left for schema validation to reject
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return data;
+  }
+
+  const current = migrations.length + 1;
+  const version = typeof (data as Document).schemaVersion === 'number'
+    ? (data as Document).schemaVersion as number
+    : 1;
+
+  // Refuse rather than drop fields we don't know about when saving again
+  if (version > current) {
+    throw new UnsupportedVersionError(version, current);
+  }
+
+  let doc = data as Document;
+  for (let v = version; v < current; v++) {
+    doc = migrations[v - 1](doc);
+  }
+  return { ...doc, schemaVersion: current };
+}
+
+export function migrateAppData(data: unknown): unknown {
+  return migrate(data, APP_DATA_MIGRATIONS);
+}
+
+export function migrateDailyEntry(data: unknown): unknown {
+  return migrate(data, DAILY_ENTRY_MIGRATIONS);
+}
@@ -0,0 +1,147 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import * as fsSync from 'fs';
+import matter from 'gray-matter';
+import { encrypt, decrypt } from './encryption';
+import { writeFileAtomic, recordOwnWrite } from './atomicWrite';
+import { BACKUP_FOLDER } from './backups';
+import { isConflictCopy } from './syncConflicts';
+
+// Re-encryption is staged in this folder and then swapped in file by file.
+// The manifest records how far we got, so an interrupted run can be finished
+// (or thrown away) on the next start without leaving two passwords in use.
+const REKEY_FOLDER = '.rekey';
+const MANIFEST_FILE = 'manifest.json';
+
+interface RekeyManifest {
+  // staging: originals are untouched, committing: staged files are being moved into place
+  state: 'staging' | 'committing';
+  startedAt: string;
+  files: string[];
+}
+
+export type ResumeOutcome = 'none' | 'rolled-back' | 'completed';
+
+async function writeManifest(rekeyPath: string, manifest: RekeyManifest) {
+  await writeFileAtomic(path.join(rekeyPath, MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+}
+
+async function readManifest(rekeyPath: string): Promise<RekeyManifest | null> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(rekeyPath, MANIFEST_FILE), 'utf-8'));
+  } catch (error) {
+    return null;
+  }
+}
+
+// Move every staged file that is still in the rekey folder over its original
+async function commitStagedFiles(dataPath: string, rekeyPath: string, files: string[]) {
+  for (const file of files) {
+    const staged = path.join(rekeyPath, file);
+    if (fsSync.existsSync(staged)) {
+      await fs.rename(staged, path.join(dataPath, file));
+      await recordOwnWrite(path.join(dataPath, file));
+    }
+  }
+}
+
+// Finish or undo a password change that was interrupted part-way through.
+// Needs no password: staged files are already encrypted with the new one.
+export async function resumePendingPasswordChange(dataPath: string): Promise<ResumeOutcome> {
+  const rekeyPath = path.join(dataPath, REKEY_FOLDER);
+  if (!fsSync.existsSync(rekeyPath)) {
+    return 'none';
+  }
+
+  const manifest = await readManifest(rekeyPath);
+  if (manifest?.state === 'committing') {
+    await commitStagedFiles(dataPath, rekeyPath, manifest.files);
+    await fs.rm(rekeyPath, { recursive: true, force: true });
+    return 'completed';
+  }
+
+  // Still staging (or the manifest was never written): originals are intact
+  await fs.rm(rekeyPath, { recursive: true, force: true });
+  return 'rolled-back';
+}
+
+function reencryptDailyFile(fileContent: string, oldPassword: string, newPassword: string): string {
+  const { data, content } = matter(fileContent);
+  const decrypted = decrypt(content, oldPassword);
+  return matter.stringify(encrypt(decrypted, newPassword), data);
+}
+
+function reencryptAppData(fileContent: string, oldPassword: string, newPassword: string): string {
+  const decrypted = decrypt(fileContent, oldPassword);
+  JSON.parse(decrypted); // Make sure we are not re-encrypting garbage
+  return encrypt(decrypted, newPassword);
+}
+
+// Re-encrypt app-data.json, its backups and sync conflict copies, and every
+// daily file, with a new password. Quarantined files are left as they are:
+// they were moved there because they could not be read.
+// Throws if the old password is wrong or any file cannot be decrypted;
+// in that case nothing in the data folder has been changed.
+export async function changePassword(dataPath: string, oldPassword: string, newPassword: string) {
+  await resumePendingPasswordChange(dataPath);
+
+  const files: string[] = [];
+  if (fsSync.existsSync(path.join(dataPath, 'app-data.json'))) {
+    files.push('app-data.json');
+  }
+  // Conflict copies must open with the new password to be merged later
+  (await fs.readdir(dataPath))
+    .filter(f => isConflictCopy(f, false))
+    .forEach(f => files.push(f));
+  const dailyFiles = await fs.readdir(path.join(dataPath, 'daily'));
+  dailyFiles
+    .filter(f => f.endsWith('.md'))
+    .forEach(f => files.push(`daily/${f}`));
+  if (fsSync.existsSync(path.join(dataPath, BACKUP_FOLDER))) {
+    const backupFiles = await fs.readdir(path.join(dataPath, BACKUP_FOLDER));
+    backupFiles
+      .filter(f => f.endsWith('.json'))
+      .forEach(f => files.push(`${BACKUP_FOLDER}/${f}`));
+  }
+
+  const rekeyPath = path.join(dataPath, REKEY_FOLDER);
+  const manifest: RekeyManifest = { state: 'staging', startedAt: new Date().toISOString(), files };
+  await fs.mkdir(path.join(rekeyPath, 'daily'), { recursive: true });
+  await fs.mkdir(path.join(rekeyPath, BACKUP_FOLDER), { recursive: true });
+  await writeManifest(rekeyPath, manifest);
+
+  const unreadable: string[] = [];
+  try {
+    for (const file of files) {
+      const fileContent = await fs.readFile(path.join(dataPath, file), 'utf-8');
+      let updated: string;
+      try {
+        updated = file.startsWith('daily/')
+          ? reencryptDailyFile(fileContent, oldPassword, newPassword)
+          : reencryptAppData(fileContent, oldPassword, newPassword);
+      } catch (error) {
+        if (file === 'app-data.json') {
+          throw new Error('Current password is incorrect');
+        }
+        unreadable.push(file);
+        continue;
+      }
+      await writeFileAtomic(path.join(rekeyPath, file), updated);
+    }
+
+    if (unreadable.length > 0) {
+      throw new Error(
+        `${unreadable.length} file(s) could not be decrypted with the current password. ` +
+        'Use Data Health to quarantine them, then try again.'
+      );
+    }
+  } catch (error) {
+    await fs.rm(rekeyPath, { recursive: true, force: true });
+    throw error;
+  }
+
+  // Point of no return: from here on a restart completes the change
+  await writeManifest(rekeyPath, { ...manifest, state: 'committing' });
+  await commitStagedFiles(dataPath, rekeyPath, files);
+  await fs.rm(rekeyPath, { recursive: true, force: true });
+}
@@ -0,0 +1,94 @@
+import * as crypto from 'crypto';
+import Store from 'electron-store';
+
+// Several people can use one installation, each with their own data folder.
+// Passwords are never stored here: each folder has its own, and a remembered
+// password is kept per folder by savedPassword.ts.
+export interface Profile {
+  id: string;
+  name: string;
+  // Null until a data folder has been chosen for the profile
+  dataPath: string | null;
+}
+
+const profileStore = new Store<{ profiles: Profile[]; activeProfileId: string | null }>({
+  name: 'profiles',
+  defaults: { profiles: [], activeProfileId: null },
+});
+
+const DEFAULT_PROFILE_NAME = 'Me';
+
+export function listProfiles(): Profile[] {
+  return profileStore.get('profiles');
+}
+
+function findProfile(id: string): Profile {
+  const profile = listProfiles().find(p => p.id === id);
+  if (!profile) {
+    throw new Error('Profile not found');
+  }
+  return profile;
+}
+
+function updateProfile(id: string, changes: Partial<Omit<Profile, 'id'>>): Profile {
+  findProfile(id);
+  const profiles = listProfiles().map(p => (p.id === id ? { ...p, ...changes } : p));
+  profileStore.set('profiles', profiles);
+  return profiles.find(p => p.id === id)!;
+}
+
+function validName(name: string): string {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Please enter a profile name');
+  }
+  if (listProfiles().some(p => p.name.toLowerCase() === trimmed.toLowerCase())) {
+    throw new Error(`A profile named "${trimmed}" already exists`);
+  }
+  return trimmed;
+}
+
+// Make sure there is at least one profile and an active one. Installations from
+// before profiles had a single data folder, which becomes the first profile's.
+export function ensureProfiles(legacyDataPath: string | null): Profile {
+  let profiles = listProfiles();
+  if (profiles.length === 0) {
+    profiles = [{ id: crypto.randomUUID(), name: DEFAULT_PROFILE_NAME, dataPath: legacyDataPath }];
+    profileStore.set('profiles', profiles);
+  }
+
+  const activeId = profileStore.get('activeProfileId');
+  const active = profiles.find(p => p.id === activeId) || profiles[0];
+  profileStore.set('activeProfileId', active.id);
+  return active;
+}
+
+export function setActiveProfile(id: string): Profile {
+  const profile = findProfile(id);
+  profileStore.set('activeProfileId', id);
+  return profile;
+}
+
+export function createProfile(name: string): Profile {
+  const profile: Profile = { id: crypto.randomUUID(), name: validName(name), dataPath: null };
+  profileStore.set('profiles', [...listProfiles(), profile]);
+  return profile;
+}
+
+export function setProfileDataPath(id: string, dataPath: string): Profile {
+  return updateProfile(id, { dataPath });
+}
+
+// Removes the profile only; its data folder is left untouched
+export function deleteProfile(id: string) {
+  findProfile(id);
+  const profiles = listProfiles();
+  if (profiles.length === 1) {
+    throw new Error('The last profile cannot be deleted');
+  }
+
+  profileStore.set('profiles', profiles.filter(p => p.id !== id));
+  if (profileStore.get('activeProfileId') === id) {
+    profileStore.set('activeProfileId', profiles.find(p => p.id !== id)!.id);
+  }
+}
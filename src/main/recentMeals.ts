@@ -0,0 +1,23 @@
+import { MealEntry } from './validation';
+import { sameValue } from './syncConflicts';
+
+// AppData.recentMeals is kept by the main process: the meals of every day the
+// renderer saves go to the front of the list, newest first.
+
+export const RECENT_MEALS_LIMIT = 20;
+
+// Meals already in the list unchanged keep their place, so saving a day for
+// another reason (like a glass of water) does not reorder it. Returns the same
+// array when nothing changed.
+export function withRecentMeals(recentMeals: MealEntry[], meals: MealEntry[]): MealEntry[] {
+  const changed = meals.filter(meal => !recentMeals.some(recent => sameValue(recent, meal)));
+  if (changed.length === 0) {
+    return recentMeals;
+  }
+
+  const ids = new Set(changed.map(meal => meal.id));
+  return [
+    ...[...changed].sort((a, b) => b.time.localeCompare(a.time)),
+    ...recentMeals.filter(meal => !ids.has(meal.id)),
+  ].slice(0, RECENT_MEALS_LIMIT);
+}
@@ -0,0 +1,193 @@
+import { BrowserWindow } from 'electron';
+import { format, parseISO } from 'date-fns';
+import { AppData, DailyEntry } from './validation';
+import {
+  calculateDayTotals,
+  averageDayTotals,
+  macroCalories,
+  exerciseSummary,
+  waterAdherence,
+  weightTrend,
+} from '../shared/nutritionStats';
+
+// A printable summary of a date range for sharing with a coach: daily totals
+// against the goals, macro split, exercise, water, weight trend and notes.
+// The page is built as one self-contained HTML string and printed from a hidden
+// window, so no decrypted data is written to disk before the PDF itself.
+
+export interface ReportInput {
+  startDate: string;
+  endDate: string;
+  entries: DailyEntry[];
+  appData: AppData;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const formatDay = (date: string) => format(parseISO(date), 'EEE, MMM d, yyyy');
+const percent = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 100) : 0);
+
+// Inline SVG, since the page is printed with scripts disabled
+function weightChart(points: { date: string; weight: number }[], targetWeight?: number): string {
+  if (points.length < 2) return '';
+
+  const width = 640;
+  const height = 160;
+  const padding = 20;
+  const weights = points.map(p => p.weight).concat(targetWeight !== undefined ? [targetWeight] : []);
+  const min = Math.min(...weights) - 1;
+  const max = Math.max(...weights) + 1;
+  const x = (index: number) => padding + (index / (points.length - 1)) * (width - 2 * padding);
+  const y = (weight: number) => height - padding - ((weight - min) / (max - min)) * (height - 2 * padding);
+
+  const line = points.map((p, index) => `${x(index).toFixed(1)},${y(p.weight).toFixed(1)}`).join(' ');
+  const target = targetWeight !== undefined
+    ? `<line x1="${padding}" x2="${width - padding}" y1="${y(targetWeight).toFixed(1)}" y2="${y(targetWeight).toFixed(1)}" class="target" />`
+    : '';
+
+  return `<svg viewBox="0 0 ${width} ${height}" class="chart">${target}<polyline points="${line}" /></svg>`;
+}
+
+export function buildReportHtml({ startDate, endDate, entries, appData }: ReportInput): string {
+  const goals = appData.goals;
+  const days = [...entries].sort((a, b) => a.date.localeCompare(b.date));
+  const averages = averageDayTotals(days);
+  const split = macroCalories(averages);
+  const splitTotal = split.protein + split.carbs + split.fats;
+  const exercise = exerciseSummary(days);
+  const water = waterAdherence(days, goals.waterGlasses);
+  const weights = weightTrend(appData.weightHistory, startDate, endDate);
+  const withinGoal = days.filter(entry => calculateDayTotals(entry).calories <= goals.dailyCalories).length;
+
+  const dailyRows = days.map(entry => {
+    const totals = calculateDayTotals(entry);
+    const difference = Math.round(totals.calories - goals.dailyCalories);
+    return `<tr>
+      <td>${formatDay(entry.date)}</td>
+      <td class="num">${Math.round(totals.calories)}</td>
+      <td class="num ${difference > 0 ? 'over' : ''}">${difference > 0 ? '+' : ''}${difference}</td>
+      <td class="num">${Math.round(totals.protein)}</td>
+      <td class="num">${Math.round(totals.carbs)}</td>
+      <td class="num">${Math.round(totals.fats)}</td>
+      <td class="num">${entry.water.glasses}</td>
+      <td class="num">${entry.exercise ? entry.exercise.caloriesBurned : ''}</td>
+    </tr>`;
+  }).join('');
+
+  const exerciseRows = days.filter(entry => entry.exercise).map(({ date, exercise }) => `<tr>
+      <td>${formatDay(date)}</td>
+      <td>${escapeHtml(exercise!.type)}</td>
+      <td class="num">${exercise!.duration ?? ''}</td>
+      <td class="num">${exercise!.caloriesBurned}</td>
+      <td>${escapeHtml(exercise!.notes || '')}</td>
+    </tr>`).join('');
+
+  const notes = days
+    .filter(entry => entry.notes && entry.notes.trim())
+    .map(entry => `<p><strong>${formatDay(entry.date)}</strong><br />${escapeHtml(entry.notes!).replace(/\n/g, '<br />')}</p>`)
+    .join('');
+
+  const weightSection = weights.length === 0
+    ? '<p class="muted">No weigh-ins in this period.</p>'
+    : `<p>
+        ${weights[0].weight} lbs on ${formatDay(weights[0].date)} to
+        ${weights[weights.length - 1].weight} lbs on ${formatDay(weights[weights.length - 1].date)}
+        (${(weights[weights.length - 1].weight - weights[0].weight).toFixed(1)} lbs)
+        ${goals.targetWeight !== undefined ? ` · Target ${goals.targetWeight} lbs` : ''}
+      </p>
+      ${weightChart(weights, goals.targetWeight)}`;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>Nutrition Report</title>
+<style>
+  body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #111827; font-size: 11px; margin: 0; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 14px; margin: 20px 0 8px; border-bottom: 2px solid #f97316; padding-bottom: 4px; }
+  .muted { color: #6b7280; }
+  .cards { display: flex; gap: 8px; }
+  .card { flex: 1; border: 1px solid #e5e7eb; border-radius: 6px; padding: 8px; }
+  .card .value { font-size: 18px; font-weight: 700; color: #ea580c; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 4px 6px; border-bottom: 1px solid #f3f4f6; }
+  th { background: #f9fafb; font-weight: 600; }
+  tr { page-break-inside: avoid; }
+  .num { text-align: right; }
+  .over { color: #dc2626; }
+  .split { display: flex; height: 14px; border-radius: 4px; overflow: hidden; margin: 6px 0; }
+  .split div { height: 100%; }
+  .chart { width: 100%; height: 160px; }
+  .chart polyline { fill: none; stroke: #f97316; stroke-width: 2; }
+  .chart .target { stroke: #94a3b8; stroke-dasharray: 5 5; }
+</style>
+</head>
+<body>
+  <h1>Nutrition Report</h1>
+  <p class="muted">${formatDay(startDate)} – ${formatDay(endDate)} · ${days.length} days logged</p>
+
+  <h2>Summary</h2>
+  <div class="cards">
+    <div class="card"><div class="muted">Avg calories/day</div><div class="value">${averages.calories}</div><div class="muted">Goal ${goals.dailyCalories}</div></div>
+    <div class="card"><div class="muted">Days within calorie goal</div><div class="value">${withinGoal} / ${days.length}</div></div>
+    <div class="card"><div class="muted">Workouts</div><div class="value">${exercise.sessions}</div><div class="muted">${Math.round(exercise.caloriesBurned)} cal burned</div></div>
+    <div class="card"><div class="muted">Water goal met</div><div class="value">${water.daysMet} / ${water.days}</div><div class="muted">${goals.waterGlasses} glasses a day</div></div>
+  </div>
+
+  <h2>Macros</h2>
+  <table>
+    <tr><th></th><th class="num">Avg per day</th><th class="num">Goal</th><th class="num">Share of calories</th></tr>
+    <tr><td>Protein</td><td class="num">${averages.protein} g</td><td class="num">${goals.protein} g</td><td class="num">${percent(split.protein, splitTotal)}%</td></tr>
+    <tr><td>Carbs</td><td class="num">${averages.carbs} g</td><td class="num">${goals.carbs} g</td><td class="num">${percent(split.carbs, splitTotal)}%</td></tr>
+    <tr><td>Fats</td><td class="num">${averages.fats} g</td><td class="num">${goals.fats} g</td><td class="num">${percent(split.fats, splitTotal)}%</td></tr>
+  </table>
+  <div class="split">
+    <div style="width: ${percent(split.protein, splitTotal)}%; background: #3b82f6"></div>
+    <div style="width: ${percent(split.carbs, splitTotal)}%; background: #10b981"></div>
+    <div style="width: ${percent(split.fats, splitTotal)}%; background: #f59e0b"></div>
+  </div>
+
+  <h2>Daily Totals</h2>
+  <table>
+    <tr><th>Date</th><th class="num">Calories</th><th class="num">vs Goal</th><th class="num">Protein (g)</th><th class="num">Carbs (g)</th><th class="num">Fats (g)</th><th class="num">Water</th><th class="num">Burned</th></tr>
+    ${dailyRows}
+  </table>
+
+  <h2>Exercise</h2>
+  ${exerciseRows
+    ? `<table><tr><th>Date</th><th>Type</th><th class="num">Minutes</th><th class="num">Calories</th><th>Notes</th></tr>${exerciseRows}</table>`
+    : '<p class="muted">No exercise logged in this period.</p>'}
+
+  <h2>Weight</h2>
+  ${weightSection}
+
+  <h2>Notes</h2>
+  ${notes || '<p class="muted">No notes in this period.</p>'}
+</body>
+</html>`;
+}
+
+export async function renderPdf(html: string): Promise<Buffer> {
+  const window = new BrowserWindow({
+    show: false,
+    webPreferences: { offscreen: true, javascript: false },
+  });
+
+  try {
+    await window.loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(html)}`);
+    return await window.webContents.printToPDF({
+      pageSize: 'Letter',
+      printBackground: true,
+      margins: { top: 0.5, bottom: 0.5, left: 0.5, right: 0.5 },
+    });
+  } finally {
+    window.destroy();
+  }
+}
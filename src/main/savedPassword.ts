@@ -0,0 +1,90 @@
+import { app, safeStorage } from 'electron';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import * as fsSync from 'fs';
+import Store from 'electron-store';
+import { decrypt } from './encryption';
+
+// "Remember me" passwords live in the user-data directory, never in the (synced)
+// data folder. They are encrypted with the OS keychain via safeStorage, so the
+// stored value is only readable by this user account on this machine.
+const passwordStore = new Store<{ passwords: Record<string, string> }>({
+  name: 'saved-passwords',
+  defaults: { passwords: {} },
+});
+
+// Older versions kept the password in the data folder, encrypted with the app name
+const LEGACY_PASSWORD_FILE = '.password';
+
+// On Linux, safeStorage falls back to a hardcoded key (the basic_text backend)
+// when no keyring is found. That would not tie the password to this machine,
+// so it counts as unavailable.
+export function isSecureStorageAvailable(): boolean {
+  if (!safeStorage.isEncryptionAvailable()) {
+    return false;
+  }
+  return process.platform !== 'linux' || safeStorage.getSelectedStorageBackend() !== 'basic_text';
+}
+
+export function savePassword(dataPath: string, password: string): boolean {
+  if (!isSecureStorageAvailable()) {
+    console.warn('Secure storage unavailable; password will not be remembered');
+    return false;
+  }
+
+  const encrypted = safeStorage.encryptString(password).toString('base64');
+  passwordStore.set('passwords', { ...passwordStore.get('passwords'), [dataPath]: encrypted });
+  return true;
+}
+
+export function loadPassword(dataPath: string): string | null {
+  const encrypted = passwordStore.get('passwords')[dataPath];
+  if (!encrypted || !isSecureStorageAvailable()) {
+    return null;
+  }
+
+  try {
+    return safeStorage.decryptString(Buffer.from(encrypted, 'base64'));
+  } catch (error) {
+    // Written by another OS account or machine; it is of no use here
+    clearPassword(dataPath);
+    return null;
+  }
+}
+
+export function clearPassword(dataPath: string) {
+  const { [dataPath]: removed, ...rest } = passwordStore.get('passwords');
+  if (removed) {
+    passwordStore.set('passwords', rest);
+  }
+}
+
+// Forget the remembered password, including any copy left by an older version
+export async function forgetPassword(dataPath: string) {
+  clearPassword(dataPath);
+  await fs.rm(path.join(dataPath, LEGACY_PASSWORD_FILE), { force: true });
+}
+
+// Move a password saved by an older version into secure storage and delete the
+// legacy file, even when secure storage is unavailable, so it stops syncing.
+// Returns the migrated password so the current launch can still sign in.
+export async function migrateLegacyPasswordFile(dataPath: string): Promise<string | null> {
+  const legacyPath = path.join(dataPath, LEGACY_PASSWORD_FILE);
+  if (!fsSync.existsSync(legacyPath)) {
+    return null;
+  }
+
+  let password: string | null = null;
+  try {
+    password = decrypt(await fs.readFile(legacyPath, 'utf-8'), app.getName());
+    savePassword(dataPath, password);
+  } catch (error) {
+    console.error('Error migrating saved password:', error);
+  }
+
+  await fs.unlink(legacyPath).catch((error) => {
+    console.error('Error deleting legacy password file:', error);
+  });
+
+  return password;
+}
@@ -0,0 +1,289 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { AppDataSchema, AppData, DailyEntry, validateData } from './validation';
+import { decrypt } from './encryption';
+import { readEntryFile } from './entryRepository';
+import { migrateAppData } from './migrations';
+import { scaledFood, servingText } from '../shared/servings';
+
+// Cloud sync clients never overwrite a file that changed on two machines; they
+// keep both and rename one, e.g. "2025-03-04 (1).md" (OneDrive),
+// "2025-03-04 (Laptop's conflicted copy).md" (Dropbox) or "app-data-DESKTOP-ABC.json".
+// Anything that starts like one of our files but has a suffix is such a copy.
+const DAILY_CONFLICT_PATTERN = /^(\d{4}-\d{2}-\d{2})[ _\-(].*\.md$/;
+const APP_DATA_CONFLICT_PATTERN = /^app-data[ _\-(].*\.json$/;
+
+// Whether a file in the data folder (or its daily/ subfolder) is a conflict copy
+export function isConflictCopy(file: string, inDailyFolder: boolean): boolean {
+  return inDailyFolder ? DAILY_CONFLICT_PATTERN.test(file) : APP_DATA_CONFLICT_PATTERN.test(file);
+}
+
+export type ConflictKind = 'daily' | 'appData';
+
+export interface ConflictCopy {
+  // Paths relative to the data folder
+  file: string;
+  target: string;
+  kind: ConflictKind;
+}
+
+// Which version of an item to keep
+export type ConflictChoice = 'current' | 'incoming';
+
+// Something changed differently in both copies, with a short description of each side
+export interface ConflictItem {
+  key: string;
+  label: string;
+  current: string;
+  incoming: string;
+}
+
+export interface PendingConflict extends ConflictCopy {
+  items: ConflictItem[];
+}
+
+export interface MergeResult<T> {
+  merged: T;
+  conflicts: ConflictItem[];
+}
+
+export type ConflictChoices = Record<string, ConflictChoice>;
+
+export async function findConflictCopies(dataPath: string): Promise<ConflictCopy[]> {
+  const copies: ConflictCopy[] = [];
+
+  for (const file of await fs.readdir(path.join(dataPath, 'daily'))) {
+    const match = DAILY_CONFLICT_PATTERN.exec(file);
+    if (match) {
+      copies.push({ file: `daily/${file}`, target: `daily/${match[1]}.md`, kind: 'daily' });
+    }
+  }
+
+  for (const file of await fs.readdir(dataPath)) {
+    if (APP_DATA_CONFLICT_PATTERN.test(file)) {
+      copies.push({ file, target: 'app-data.json', kind: 'appData' });
+    }
+  }
+
+  return copies.sort((a, b) => a.file.localeCompare(b.file));
+}
+
+export async function readDailyConflictCopy(dataPath: string, copy: ConflictCopy, password: string | null): Promise<DailyEntry> {
+  const result = await readEntryFile(path.join(dataPath, 'daily'), path.basename(copy.file), password);
+  if (!result.ok) {
+    throw new Error(`${copy.file}: ${result.error.reason}`);
+  }
+
+  // The id is derived from the file name, which is the conflict copy's
+  const { id, ...entry } = result.entry;
+  return entry;
+}
+
+export async function readAppDataConflictCopy(dataPath: string, copy: ConflictCopy, password: string | null): Promise<AppData> {
+  const fileContent = await fs.readFile(path.join(dataPath, copy.file), 'utf-8');
+  const dataJson = password ? decrypt(fileContent, password) : fileContent;
+
+  const validation = validateData(AppDataSchema, migrateAppData(JSON.parse(dataJson)));
+  if (!validation.success) {
+    throw new Error(`${copy.file}: ${validation.error}`);
+  }
+
+  return validation.data;
+}
+
+// Compare by content; key order differs between validated and raw documents
+const stableStringify = (value: unknown): string => JSON.stringify(value, (key, v) =>
+  v && typeof v === 'object' && !Array.isArray(v)
+    ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+    : v
+);
+export const sameValue = (a: unknown, b: unknown) => stableStringify(a) === stableStringify(b);
+
+// Union of two lists keyed by id (or date). Items that differ between the two
+// are reported and resolved with the caller's choice, defaulting to current.
+function mergeByKey<T>(
+  section: string,
+  current: T[],
+  incoming: T[],
+  keyOf: (item: T) => string,
+  describe: (item: T) => { label: string; summary: string },
+  choices: ConflictChoices,
+  conflicts: ConflictItem[],
+  combine: (chosen: T, other: T) => T = chosen => chosen,
+  isSame: (a: T, b: T) => boolean = sameValue
+): T[] {
+  const merged = [...current];
+  const positions = new Map(current.map((item, i) => [keyOf(item), i]));
+
+  for (const item of incoming) {
+    const position = positions.get(keyOf(item));
+    if (position === undefined) {
+      merged.push(item);
+      continue;
+    }
+
+    const existing = merged[position];
+    if (isSame(existing, item)) {
+      merged[position] = combine(existing, item);
+      continue;
+    }
+
+    const key = `${section}:${keyOf(item)}`;
+    conflicts.push({
+      key,
+      label: describe(existing).label,
+      current: describe(existing).summary,
+      incoming: describe(item).summary,
+    });
+    merged[position] = choices[key] === 'incoming' ? combine(item, existing) : combine(existing, item);
+  }
+
+  return merged;
+}
+
+// A single value: missing on one side is not a conflict, different on both is
+function mergeValue<T>(
+  key: string,
+  label: string,
+  current: T | undefined,
+  incoming: T | undefined,
+  describe: (value: T) => string,
+  choices: ConflictChoices,
+  conflicts: ConflictItem[]
+): T | undefined {
+  if (incoming === undefined || sameValue(current, incoming)) return current;
+  if (current === undefined) return incoming;
+
+  conflicts.push({ key, label, current: describe(current), incoming: describe(incoming) });
+  return choices[key] === 'incoming' ? incoming : current;
+}
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+// Merge a daily file with its conflict copy: meals by id, tags as a union,
+// and everything else only when the two sides disagree
+export function mergeDailyEntries(
+  current: DailyEntry | null,
+  incoming: DailyEntry,
+  choices: ConflictChoices = {}
+): MergeResult<DailyEntry> {
+  if (!current) {
+    return { merged: incoming, conflicts: [] };
+  }
+
+  const conflicts: ConflictItem[] = [];
+  const meals = mergeByKey(
+    'meal',
+    current.meals,
+    incoming.meals,
+    meal => meal.id,
+    meal => ({
+      label: `${capitalize(meal.mealType)} at ${meal.time}`,
+      summary: `${meal.foods.length} food(s), ${Math.round(meal.foods.reduce((sum, food) => sum + scaledFood(food).calories, 0))} cal` +
+        (meal.foods.length > 0 ? `: ${meal.foods.map(food => food.name).join(', ')}` : ''),
+    }),
+    choices,
+    conflicts
+  );
+
+  const merged: DailyEntry = {
+    ...current,
+    meals,
+    water: mergeValue('water', 'Water', current.water, incoming.water,
+      water => `${water.glasses} glasses`, choices, conflicts)!,
+    exercise: mergeValue('exercise', 'Exercise', current.exercise, incoming.exercise,
+      exercise => `${exercise.type}, ${exercise.caloriesBurned} cal burned`, choices, conflicts),
+    weight: mergeValue('weight', 'Weight', current.weight, incoming.weight,
+      weight => `${weight} lbs`, choices, conflicts),
+    notes: mergeValue('notes', 'Notes', current.notes || undefined, incoming.notes || undefined,
+      notes => notes, choices, conflicts),
+    tags: Array.from(new Set([...current.tags, ...incoming.tags])),
+  };
+
+  return { merged, conflicts };
+}
+
+// Merge app-data.json with its conflict copy: saved foods, recipes, meal
+// templates and recent meals by id, weights by date, and goals only when the two sides disagree
+export function mergeAppData(current: AppData | null, incoming: AppData, choices: ConflictChoices = {}): MergeResult<AppData> {
+  if (!current) {
+    return { merged: incoming, conflicts: [] };
+  }
+
+  const conflicts: ConflictItem[] = [];
+
+  const savedFoods = mergeByKey(
+    'food',
+    current.savedFoods,
+    incoming.savedFoods,
+    food => food.id,
+    food => ({
+      label: food.name,
+      summary: `${food.name}: ${food.calories} cal, P ${food.protein}g, C ${food.carbs}g, F ${food.fats}g` +
+        (food.per100g ? ' per 100 g' : servingText(food) ? ` per ${servingText(food)}` : ''),
+    }),
+    choices,
+    conflicts,
+    // Use counts go up independently on each machine; keep the higher one
+    (chosen, other) => ({ ...chosen, useCount: Math.max(chosen.useCount, other.useCount) }),
+    (a, b) => sameValue({ ...a, useCount: 0 }, { ...b, useCount: 0 })
+  );
+
+  const recipes = mergeByKey(
+    'recipe',
+    current.recipes,
+    incoming.recipes,
+    recipe => recipe.id,
+    recipe => ({
+      label: recipe.name,
+      summary: `${recipe.name}: ${recipe.ingredients.length} ingredient(s), ${recipe.servings} serving(s)`,
+    }),
+    choices,
+    conflicts,
+    (chosen, other) => ({ ...chosen, useCount: Math.max(chosen.useCount, other.useCount) }),
+    (a, b) => sameValue({ ...a, useCount: 0 }, { ...b, useCount: 0 })
+  );
+
+  const mealTemplates = mergeByKey(
+    'template',
+    current.mealTemplates,
+    incoming.mealTemplates,
+    template => template.id,
+    template => ({
+      label: template.name,
+      summary: `${template.name}: ${capitalize(template.meal.mealType)}, ${template.meal.foods.length} food(s)`,
+    }),
+    choices,
+    conflicts
+  );
+
+  const weightHistory = mergeByKey(
+    'weight',
+    current.weightHistory,
+    incoming.weightHistory,
+    entry => entry.date,
+    entry => ({
+      label: `Weight on ${entry.date}`,
+      summary: `${entry.weight} lbs${entry.notes ? ` (${entry.notes})` : ''}`,
+    }),
+    choices,
+    conflicts
+  );
+
+  // Only a convenience list, so differences are never worth asking about
+  const recentIds = new Set(current.recentMeals.map(meal => meal.id));
+  const recentMeals = [
+    ...current.recentMeals,
+    ...incoming.recentMeals.filter(meal => !recentIds.has(meal.id)),
+  ];
+
+  const goals = mergeValue('goals', 'Goals', current.goals, incoming.goals,
+    goals => `${goals.dailyCalories} cal, P ${goals.protein}g, C ${goals.carbs}g, F ${goals.fats}g, ` +
+      `${goals.waterGlasses} glasses` + (goals.targetWeight !== undefined ? `, target ${goals.targetWeight} lbs` : ''),
+    choices, conflicts)!;
+
+  return {
+    merged: { ...current, savedFoods, recipes, mealTemplates, weightHistory, recentMeals, goals },
+    conflicts,
+  };
+}
@@ -0,0 +1,20 @@
+export interface WriteLock {
+  run: <T>(write: () => Promise<T>) => Promise<T>;
+}
+
+// Runs writes to the data folder one at a time, in the order they were asked
+// for. A password change holds the lock while it re-encrypts every file, so a
+// save can neither be overwritten by a staged copy nor be written with the old
+// password after the change.
+export function createWriteLock(): WriteLock {
+  let last: Promise<unknown> = Promise.resolve();
+
+  return {
+    run: (write) => {
+      const result = last.then(write);
+      // A failed write must not block the ones queued after it
+      last = result.catch(() => undefined);
+      return result;
+    },
+  };
+}
@@ -1,10 +1,16 @@
-import { contextBridge, ipcRenderer } from 'electron';
+import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron';
 
 contextBridge.exposeInMainWorld('electronAPI', {
   // Folder selection
   selectDataFolder: () => ipcRenderer.invoke('select-data-folder'),
   getDataPath: () => ipcRenderer.invoke('get-data-path'),
 
+  // Profiles
+  getProfiles: () => ipcRenderer.invoke('get-profiles'),
+  createProfile: (name: string) => ipcRenderer.invoke('create-profile', name),
+  switchProfile: (id: string) => ipcRenderer.invoke('switch-profile', id),
+  deleteProfile: (id: string) => ipcRenderer.invoke('delete-profile', id),
+
   // Password/Encryption
   setPassword: (password: string, remember: boolean) =>
     ipcRenderer.invoke('set-password', password, remember),
@@ -12,6 +18,23 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.invoke('verify-password', password),
   getSavedPassword: () => ipcRenderer.invoke('get-saved-password'),
   clearSavedPassword: () => ipcRenderer.invoke('clear-saved-password'),
+  changePassword: (oldPassword: string, newPassword: string) =>
+    ipcRenderer.invoke('change-password', oldPassword, newPassword),
+
+  // Session locking
+  lockSession: () => ipcRenderer.invoke('lock-session'),
+  getLockSettings: () => ipcRenderer.invoke('get-lock-settings'),
+  saveLockSettings: (settings: { idleMinutes: number; lockOnMinimize: boolean }) =>
+    ipcRenderer.invoke('save-lock-settings', settings),
+  onSessionLocked: (callback: () => void) => {
+    const listener = () => callback();
+    ipcRenderer.on('session-locked', listener);
+    return () => {
+      ipcRenderer.removeListener('session-locked', listener);
+    };
+  },
+  setStrictPrivacy: (enabled: boolean) =>
+    ipcRenderer.invoke('set-strict-privacy', enabled),
 
   // Daily entries
   getDailyEntries: (startDate?: string, endDate?: string) =>
@@ -30,7 +53,59 @@ contextBridge.exposeInMainWorld('electronAPI', {
   searchEntries: (query: string, tags: string[]) =>
     ipcRenderer.invoke('search-entries', query, tags),
 
+  // Data health
+  checkDataHealth: () => ipcRenderer.invoke('check-data-health'),
+  quarantineFiles: (files: string[]) =>
+    ipcRenderer.invoke('quarantine-files', files),
+
+  // Live reload
+  onDataChanged: (callback: (change: unknown) => void) => {
+    const listener = (_event: IpcRendererEvent, change: unknown) => callback(change);
+    ipcRenderer.on('data-changed', listener);
+    return () => {
+      ipcRenderer.removeListener('data-changed', listener);
+    };
+  },
+
+  // Sync conflicts
+  getSyncConflicts: () => ipcRenderer.invoke('get-sync-conflicts'),
+  resolveSyncConflict: (file: string, choices: Record<string, 'current' | 'incoming'>) =>
+    ipcRenderer.invoke('resolve-sync-conflict', file, choices),
+
+  // Backups
+  listBackups: () => ipcRenderer.invoke('list-backups'),
+  restoreBackup: (file: string) =>
+    ipcRenderer.invoke('restore-backup', file),
+
+  // Backup archives
+  exportBackupArchive: (password: string) =>
+    ipcRenderer.invoke('export-backup-archive', password),
+  selectBackupArchive: () => ipcRenderer.invoke('select-backup-archive'),
+  previewBackupArchive: (filePath: string, password: string) =>
+    ipcRenderer.invoke('preview-backup-archive', filePath, password),
+  restoreBackupArchive: (filePath: string, password: string, mode: 'replace' | 'merge') =>
+    ipcRenderer.invoke('restore-backup-archive', filePath, password, mode),
+
+  // Import from other trackers
+  selectFoodLogFile: () => ipcRenderer.invoke('select-food-log-file'),
+  previewFoodLogImport: (filePath: string) =>
+    ipcRenderer.invoke('preview-food-log-import', filePath),
+  importFoodLog: (filePath: string) =>
+    ipcRenderer.invoke('import-food-log', filePath),
+
+  // Import the app's own exports
+  importData: (policy: 'skip' | 'overwrite' | 'merge') =>
+    ipcRenderer.invoke('import-data', policy),
+
+  // Reports
+  exportReport: (startDate: string, endDate: string) =>
+    ipcRenderer.invoke('export-report', startDate, endDate),
+
   // Export
-  exportData: (format: 'csv' | 'json', startDate: string, endDate: string) =>
-    ipcRenderer.invoke('export-data', format, startDate, endDate),
+  exportData: (
+    format: 'csv' | 'csv-itemized' | 'json' | 'ics',
+    startDate: string,
+    endDate: string,
+    options?: { includeExercise: boolean; includeWater: boolean }
+  ) => ipcRenderer.invoke('export-data', format, startDate, endDate, options),
 });
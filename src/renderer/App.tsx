@@ -6,8 +6,16 @@ import GoalsSettings from './components/GoalsSettings';
 import WeightTracker from './components/WeightTracker';
 import CalendarView from './components/CalendarView';
 import StatsView from './components/StatsView';
+import DataHealthView from './components/DataHealthView';
+import BackupsView from './components/BackupsView';
+import BackupArchiveView from './components/BackupArchiveView';
+import FoodLogImportView from './components/FoodLogImportView';
+import ExportDialog from './components/ExportDialog';
+import ChangePasswordModal from './components/ChangePasswordModal';
+import SecuritySettings from './components/SecuritySettings';
+import SyncConflictDialog from './components/SyncConflictDialog';
 import { ToastProvider } from './components/Toast';
-import { AppData, DailyEntry } from './types';
+import { AppData, DailyEntry, DataChange, PendingConflict, Profile } from './types';
 
 type AppScreen = 'password' | 'dashboard' | 'foodLibrary';
 
@@ -23,11 +31,30 @@ function App() {
   const [showWeightTracker, setShowWeightTracker] = useState(false);
   const [showCalendarView, setShowCalendarView] = useState(false);
   const [showStatsView, setShowStatsView] = useState(false);
+  const [showDataHealth, setShowDataHealth] = useState(false);
+  const [showBackups, setShowBackups] = useState(false);
+  const [showBackupArchive, setShowBackupArchive] = useState(false);
+  const [showFoodLogImport, setShowFoodLogImport] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [showChangePassword, setShowChangePassword] = useState(false);
+  const [showSecuritySettings, setShowSecuritySettings] = useState(false);
+  const [isLocked, setIsLocked] = useState(false);
+  const [syncConflicts, setSyncConflicts] = useState<PendingConflict[]>([]);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
 
   useEffect(() => {
     checkForSavedSession();
   }, []);
 
+  useEffect(() => {
+    return window.electronAPI.onSessionLocked(handleLocked);
+  }, []);
+
+  useEffect(() => {
+    return window.electronAPI.onDataChanged(handleDataChanged);
+  }, []);
+
   const checkForSavedSession = async () => {
     try {
       const savedDataPath = await window.electronAPI.getDataPath();
@@ -38,6 +65,7 @@ function App() {
         if (savedPassword) {
           const isValid = await window.electronAPI.verifyPassword(savedPassword);
           if (isValid) {
+            await checkSyncConflicts();
             await loadAppData();
             setIsAuthenticated(true);
             setCurrentScreen('dashboard');
@@ -49,8 +77,19 @@ function App() {
     }
   };
 
+  const loadProfiles = async () => {
+    try {
+      const result = await window.electronAPI.getProfiles();
+      setProfiles(result.profiles);
+      setActiveProfileId(result.activeProfileId);
+    } catch (error) {
+      console.error('Error loading profiles:', error);
+    }
+  };
+
   const loadAppData = async () => {
     setIsLoading(true);
+    loadProfiles();
     try {
       const data = await window.electronAPI.getAppData();
       if (data) {
@@ -66,14 +105,84 @@ function App() {
     }
   };
 
+  // Reload only what changed outside the app, without the loading screen, so
+  // open dialogs stay open. The dashboard reloads its own day.
+  const handleDataChanged = async (change: DataChange) => {
+    try {
+      if (change.kind === 'appData') {
+        const data = await window.electronAPI.getAppData();
+        if (data) {
+          setAppData(data);
+        }
+      } else if (change.kind === 'daily') {
+        const entries = await window.electronAPI.getDailyEntries(change.date, change.date);
+        setDailyEntries(prev => [
+          ...prev.filter(entry => entry.date !== change.date),
+          ...entries,
+        ]);
+      } else {
+        await checkSyncConflicts();
+      }
+    } catch (error) {
+      console.error('Error reloading changed data:', error);
+    }
+  };
+
+  // Merge conflict copies left by a sync service before loading, so the
+  // dashboard shows the combined data; the rest are shown for a decision
+  const checkSyncConflicts = async () => {
+    try {
+      const report = await window.electronAPI.getSyncConflicts();
+      setSyncConflicts(report.pending);
+    } catch (error) {
+      console.error('Error checking sync conflicts:', error);
+    }
+  };
+
   const handleAuthenticated = async (path: string) => {
     setDataPath(path);
+    setIsLocked(false);
     setIsAuthenticated(true);
+    await checkSyncConflicts();
     await loadAppData();
     setCurrentScreen('dashboard');
   };
 
-  const handleLogout = async () => {
+  const closeAllModals = () => {
+    setSyncConflicts([]);
+    setShowFoodLibrary(false);
+    setShowGoalsSettings(false);
+    setShowWeightTracker(false);
+    setShowCalendarView(false);
+    setShowStatsView(false);
+    setShowDataHealth(false);
+    setShowBackups(false);
+    setShowBackupArchive(false);
+    setShowFoodLogImport(false);
+    setShowExportDialog(false);
+    setShowChangePassword(false);
+    setShowSecuritySettings(false);
+  };
+
+  // Drop all decrypted data but keep the data path so the same folder can be unlocked
+  const handleLocked = () => {
+    closeAllModals();
+    setIsAuthenticated(false);
+    setCurrentScreen('password');
+    setAppData(null);
+    setDailyEntries([]);
+    setIsLocked(true);
+  };
+
+  const handleLock = async () => {
+    await window.electronAPI.lockSession();
+    handleLocked();
+  };
+
+  // Back to the password screen for whichever profile is active
+  const resetToLogin = () => {
+    closeAllModals();
+    setIsLocked(false);
     setIsAuthenticated(false);
     setCurrentScreen('password');
     setAppData(null);
@@ -81,8 +190,35 @@ function App() {
     setDataPath(null);
   };
 
+  const handleLogout = async () => {
+    await window.electronAPI.lockSession();
+    resetToLogin();
+  };
+
+  // Switching ends this session; the other profile signs in with its remembered
+  // password if it has one, otherwise the password screen asks for it
+  const handleSwitchProfile = async (id: string) => {
+    if (id === activeProfileId) return;
+
+    const result = await window.electronAPI.switchProfile(id);
+    if (!result.success) {
+      console.error('Error switching profile:', result.error);
+      return;
+    }
+
+    resetToLogin();
+    await checkForSavedSession();
+  };
+
   if (currentScreen === 'password' && !isAuthenticated) {
-    return <PasswordScreen onAuthenticated={handleAuthenticated} />;
+    return (
+      <PasswordScreen
+        key={isLocked ? 'unlock' : 'login'}
+        onAuthenticated={handleAuthenticated}
+        onProfileSwitched={checkForSavedSession}
+        lockedDataPath={isLocked ? dataPath : null}
+      />
+    );
   }
 
   if (isLoading) {
@@ -102,7 +238,23 @@ function App() {
       <header className="bg-white border-b border-gray-200 px-6 py-4">
         <div className="flex items-center justify-between">
           <div>
-            <h1 className="text-2xl font-bold text-gray-900">Daily Calorie Tracker</h1>
+            <div className="flex items-center gap-3">
+              <h1 className="text-2xl font-bold text-gray-900">Daily Calorie Tracker</h1>
+              {profiles.length > 1 && (
+                <select
+                  value={activeProfileId || ''}
+                  onChange={(e) => handleSwitchProfile(e.target.value)}
+                  title="Switch profile"
+                  className="px-3 py-1 text-sm border border-gray-300 rounded-lg text-gray-700 focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                >
+                  {profiles.map(profile => (
+                    <option key={profile.id} value={profile.id}>
+                      {profile.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
             {dataPath && (
               <p className="text-sm text-gray-500 mt-1">Data: {dataPath}</p>
             )}
@@ -178,6 +330,90 @@ function App() {
               </svg>
               Stats
             </button>
+            <button
+              onClick={() => setShowDataHealth(true)}
+              className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors flex items-center gap-2"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z"
+                />
+              </svg>
+              Data Health
+            </button>
+            <button
+              onClick={() => setShowBackupArchive(true)}
+              className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors flex items-center gap-2"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M8 7H5a2 2 0 00-2 2v9a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-3m-1 4l-3 3m0 0l-3-3m3 3V4"
+                />
+              </svg>
+              Backup
+            </button>
+            <button
+              onClick={() => setShowFoodLogImport(true)}
+              className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors flex items-center gap-2"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12"
+                />
+              </svg>
+              Import
+            </button>
+            <button
+              onClick={() => setShowExportDialog(true)}
+              className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors flex items-center gap-2"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"
+                />
+              </svg>
+              Export
+            </button>
+            <button
+              onClick={() => setShowSecuritySettings(true)}
+              className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors flex items-center gap-2"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z"
+                />
+              </svg>
+              Security
+            </button>
+            <button
+              onClick={handleLock}
+              className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors flex items-center gap-2"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"
+                />
+              </svg>
+              Lock
+            </button>
             <button
               onClick={handleLogout}
               className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
@@ -190,12 +426,20 @@ function App() {
 
       <main className="flex-1 overflow-auto p-6">
         <div className="max-w-7xl mx-auto">
-          {appData && (
+          {appData ? (
             <Dashboard
               appData={appData}
               onDataChange={loadAppData}
               onOpenWeightTracker={() => setShowWeightTracker(true)}
             />
+          ) : (
+            <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+              Your settings and food library could not be loaded.{' '}
+              <button onClick={() => setShowDataHealth(true)} className="font-medium underline">
+                Open Data Health
+              </button>{' '}
+              to see what is wrong, or restore a backup from there.
+            </div>
           )}
         </div>
       </main>
@@ -242,6 +486,71 @@ function App() {
           onClose={() => setShowStatsView(false)}
         />
       )}
+
+      {/* Data Health Modal */}
+      {showDataHealth && (
+        <DataHealthView
+          onClose={() => setShowDataHealth(false)}
+          onDataUpdated={loadAppData}
+          onOpenBackups={() => {
+            setShowDataHealth(false);
+            setShowBackups(true);
+          }}
+        />
+      )}
+
+      {/* Backups Modal */}
+      {showBackups && (
+        <BackupsView
+          onClose={() => setShowBackups(false)}
+          onDataUpdated={loadAppData}
+        />
+      )}
+
+      {/* Backup Archive Modal */}
+      {showBackupArchive && (
+        <BackupArchiveView
+          onClose={() => setShowBackupArchive(false)}
+          onDataUpdated={loadAppData}
+        />
+      )}
+
+      {/* Food Log Import Modal */}
+      {showFoodLogImport && (
+        <FoodLogImportView onClose={() => setShowFoodLogImport(false)} />
+      )}
+
+      {/* Export Dialog */}
+      {showExportDialog && (
+        <ExportDialog onClose={() => setShowExportDialog(false)} />
+      )}
+
+      {/* Security Settings Modal */}
+      {showSecuritySettings && (
+        <SecuritySettings
+          onClose={() => setShowSecuritySettings(false)}
+          onChangePassword={() => {
+            setShowSecuritySettings(false);
+            setShowChangePassword(true);
+          }}
+        />
+      )}
+
+      {/* Sync Conflict Dialog */}
+      {syncConflicts.length > 0 && (
+        <SyncConflictDialog
+          conflicts={syncConflicts}
+          onDone={(resolvedAny) => {
+            setSyncConflicts([]);
+            if (resolvedAny) loadAppData();
+          }}
+        />
+      )}
+
+      {/* Change Password Modal */}
+      {showChangePassword && (
+        <ChangePasswordModal onClose={() => setShowChangePassword(false)} />
+      )}
       </div>
     </ToastProvider>
   );
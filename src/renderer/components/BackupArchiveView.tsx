@@ -0,0 +1,303 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { RestoreMode, RestorePreview } from '../types';
+import { useToast } from './Toast';
+
+interface BackupArchiveViewProps {
+  onClose: () => void;
+  onDataUpdated: () => void;
+}
+
+const MAX_LISTED_DAYS = 10;
+
+function formatDays(dates: string[]) {
+  const listed = dates.slice(0, MAX_LISTED_DAYS).map(date => format(parseISO(date), 'MMM d, yyyy'));
+  const more = dates.length - listed.length;
+  return more > 0 ? `${listed.join(', ')} and ${more} more` : listed.join(', ');
+}
+
+function BackupArchiveView({ onClose, onDataUpdated }: BackupArchiveViewProps) {
+  const [exportPassword, setExportPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const [archivePath, setArchivePath] = useState<string | null>(null);
+  const [restorePassword, setRestorePassword] = useState('');
+  const [preview, setPreview] = useState<RestorePreview | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [isWorking, setIsWorking] = useState(false);
+  const { showToast } = useToast();
+
+  const handleExport = async () => {
+    if (exportPassword.length < 8) {
+      showToast('error', 'Backup password must be at least 8 characters');
+      return;
+    }
+    if (exportPassword !== confirmPassword) {
+      showToast('error', 'Passwords do not match');
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const result = await window.electronAPI.exportBackupArchive(exportPassword);
+      if (result.success) {
+        showToast('success', `Backup saved with ${result.entries} daily entries`);
+        setExportPassword('');
+        setConfirmPassword('');
+      } else if (!result.canceled) {
+        showToast('error', result.error || 'Failed to save backup');
+      }
+    } catch (error) {
+      console.error('Error exporting backup archive:', error);
+      showToast('error', 'An error occurred while saving the backup');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleChooseFile = async () => {
+    const filePath = await window.electronAPI.selectBackupArchive();
+    if (filePath) {
+      setArchivePath(filePath);
+      setPreview(null);
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!archivePath || !restorePassword) return;
+
+    setIsWorking(true);
+    try {
+      const result = await window.electronAPI.previewBackupArchive(archivePath, restorePassword);
+      if (result.success && result.preview) {
+        setPreview(result.preview);
+      } else {
+        showToast('error', result.error || 'Failed to read backup');
+      }
+    } catch (error) {
+      console.error('Error previewing backup archive:', error);
+      showToast('error', 'An error occurred while reading the backup');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!archivePath || !preview) return;
+
+    const action = mode === 'replace'
+      ? 'Replace matching days and your goals, food library and weight history with the backup?'
+      : 'Add what is missing from the backup to your data?';
+    if (!confirm(`${action} Your current app data will be backed up first.`)) {
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      const result = await window.electronAPI.restoreBackupArchive(archivePath, restorePassword, mode);
+      if (result.success) {
+        showToast('success', `Backup restored, ${result.daysWritten} days updated`);
+        onDataUpdated();
+        setPreview(null);
+      } else {
+        showToast('error', result.error || 'Failed to restore backup');
+      }
+    } catch (error) {
+      console.error('Error restoring backup archive:', error);
+      showToast('error', 'An error occurred while restoring the backup');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-teal-500 to-teal-600 text-white p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold">Backup &amp; Restore</h2>
+              <p className="text-sm text-white/90 mt-1">
+                Move all your data between computers in one encrypted file
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-white hover:bg-teal-600 rounded-lg p-2 transition-colors"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M6 18L18 6M6 6l12 12"
+                />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-auto p-6 space-y-8">
+          {/* Export */}
+          <section>
+            <h3 className="text-lg font-semibold text-gray-900">Save a backup</h3>
+            <p className="text-sm text-gray-500 mt-1 mb-4">
+              Includes every daily entry, your goals, food library, recent meals and weight history.
+              You will need this password to restore it.
+            </p>
+            <div className="grid grid-cols-2 gap-3">
+              <input
+                type="password"
+                value={exportPassword}
+                onChange={(e) => setExportPassword(e.target.value)}
+                placeholder="Backup password"
+                className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+              />
+              <input
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                placeholder="Confirm password"
+                className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+              />
+            </div>
+            <button
+              onClick={handleExport}
+              disabled={isExporting || !exportPassword}
+              className="mt-3 px-4 py-2 bg-teal-500 text-white rounded-lg text-sm font-medium hover:bg-teal-600 disabled:opacity-50 transition-colors"
+            >
+              {isExporting ? 'Saving...' : 'Save Backup...'}
+            </button>
+          </section>
+
+          {/* Restore */}
+          <section className="border-t border-gray-200 pt-6">
+            <h3 className="text-lg font-semibold text-gray-900">Restore a backup</h3>
+            <div className="flex items-center gap-3 mt-4">
+              <button
+                onClick={handleChooseFile}
+                disabled={isWorking}
+                className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 disabled:opacity-50 transition-colors"
+              >
+                Choose File...
+              </button>
+              <span className="text-sm text-gray-500 truncate">
+                {archivePath || 'No file chosen'}
+              </span>
+            </div>
+            {archivePath && (
+              <div className="flex items-center gap-3 mt-3">
+                <input
+                  type="password"
+                  value={restorePassword}
+                  onChange={(e) => {
+                    setRestorePassword(e.target.value);
+                    setPreview(null);
+                  }}
+                  placeholder="Backup password"
+                  className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                />
+                <button
+                  onClick={handlePreview}
+                  disabled={isWorking || !restorePassword}
+                  className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                >
+                  Preview
+                </button>
+              </div>
+            )}
+
+            {preview && (
+              <div className="mt-4 p-4 bg-gray-50 rounded-lg space-y-3">
+                {preview.createdAt && (
+                  <p className="text-sm text-gray-500">
+                    Backup from {format(parseISO(preview.createdAt), 'EEEE, MMM d, yyyy h:mm a')}
+                  </p>
+                )}
+                <ul className="text-sm text-gray-700 space-y-1">
+                  <li>
+                    <span className="font-medium">{preview.days.added.length}</span> new days,{' '}
+                    <span className="font-medium">{preview.days.changed.length}</span> days that differ,{' '}
+                    {preview.days.unchanged} already identical
+                  </li>
+                  <li>
+                    Food library: {preview.savedFoods.added} new, {preview.savedFoods.changed} different
+                  </li>
+                  <li>
+                    Recipes: {preview.recipes.added} new, {preview.recipes.changed} different
+                  </li>
+                  <li>
+                    Meal templates: {preview.mealTemplates.added} new, {preview.mealTemplates.changed} different
+                  </li>
+                  <li>
+                    Weight history: {preview.weights.added} new, {preview.weights.changed} different
+                  </li>
+                  <li>Recent meals: {preview.recentMeals} new</li>
+                  {preview.goalsChanged && <li>Goals differ from yours</li>}
+                </ul>
+                {preview.days.changed.length > 0 && (
+                  <p className="text-xs text-gray-500">
+                    Days that differ: {formatDays(preview.days.changed)}
+                  </p>
+                )}
+
+                <div className="space-y-2 pt-2">
+                  <label className="flex items-start gap-2 text-sm text-gray-700">
+                    <input
+                      type="radio"
+                      checked={mode === 'merge'}
+                      onChange={() => setMode('merge')}
+                      className="mt-1"
+                    />
+                    <span>
+                      <span className="font-medium">Merge</span> — add what is missing; where both
+                      differ, keep your current version
+                    </span>
+                  </label>
+                  <label className="flex items-start gap-2 text-sm text-gray-700">
+                    <input
+                      type="radio"
+                      checked={mode === 'replace'}
+                      onChange={() => setMode('replace')}
+                      className="mt-1"
+                    />
+                    <span>
+                      <span className="font-medium">Replace</span> — the backup overwrites the days it
+                      contains and your goals, food library and weight history
+                    </span>
+                  </label>
+                </div>
+
+                <button
+                  onClick={handleRestore}
+                  disabled={isWorking}
+                  className="px-4 py-2 bg-teal-500 text-white rounded-lg text-sm font-medium hover:bg-teal-600 disabled:opacity-50 transition-colors"
+                >
+                  {isWorking ? 'Restoring...' : 'Restore'}
+                </button>
+              </div>
+            )}
+          </section>
+        </div>
+
+        {/* Footer */}
+        <div className="border-t border-gray-200 p-6 bg-gray-50">
+          <p className="text-xs text-gray-500 mb-4">
+            Days that are only in your current data are never removed by a restore.
+          </p>
+          <button
+            onClick={onClose}
+            className="w-full px-4 py-3 bg-white border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default BackupArchiveView;
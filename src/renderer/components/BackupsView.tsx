@@ -0,0 +1,145 @@
+import { useState, useEffect } from 'react';
+import { format, parseISO, formatDistanceToNow } from 'date-fns';
+import { BackupInfo } from '../types';
+import { useToast } from './Toast';
+
+interface BackupsViewProps {
+  onClose: () => void;
+  onDataUpdated: () => void;
+}
+
+function BackupsView({ onClose, onDataUpdated }: BackupsViewProps) {
+  const [backups, setBackups] = useState<BackupInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [restoringFile, setRestoringFile] = useState<string | null>(null);
+  const { showToast } = useToast();
+
+  useEffect(() => {
+    loadBackups();
+  }, []);
+
+  const loadBackups = async () => {
+    setIsLoading(true);
+    try {
+      setBackups(await window.electronAPI.listBackups());
+    } catch (error) {
+      console.error('Error loading backups:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRestore = async (backup: BackupInfo) => {
+    const label = format(parseISO(backup.createdAt), 'MMM d, yyyy h:mm a');
+    if (!confirm(`Restore goals, food library and weight history from ${label}? Your current data will be backed up first.`)) {
+      return;
+    }
+
+    setRestoringFile(backup.file);
+    try {
+      const result = await window.electronAPI.restoreBackup(backup.file);
+      if (result.success) {
+        showToast('success', `Restored backup from ${label}`);
+        onDataUpdated();
+        await loadBackups();
+      } else {
+        showToast('error', result.error || 'Failed to restore backup');
+      }
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      showToast('error', 'An error occurred while restoring the backup');
+    } finally {
+      setRestoringFile(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-teal-500 to-teal-600 text-white p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold">Backups</h2>
+              <p className="text-sm text-white/90 mt-1">
+                Restore your goals, food library and weight history
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-white hover:bg-teal-600 rounded-lg p-2 transition-colors"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M6 18L18 6M6 6l12 12"
+                />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-auto p-6">
+          {isLoading ? (
+            <div className="flex items-center justify-center h-48">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-teal-500"></div>
+            </div>
+          ) : backups.length === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-gray-900 font-medium">No backups yet</p>
+              <p className="text-sm text-gray-500 mt-1">
+                A backup is taken automatically when your data changes, at most every 15 minutes
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {backups.map(backup => (
+                <div
+                  key={backup.file}
+                  className="flex items-center justify-between p-4 bg-gray-50 rounded-lg"
+                >
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {format(parseISO(backup.createdAt), 'EEEE, MMM d, yyyy h:mm a')}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {formatDistanceToNow(parseISO(backup.createdAt), { addSuffix: true })}
+                      {' · '}
+                      {(backup.size / 1024).toFixed(1)} KB
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleRestore(backup)}
+                    disabled={restoringFile !== null}
+                    className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                  >
+                    {restoringFile === backup.file ? 'Restoring...' : 'Restore'}
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="border-t border-gray-200 p-6 bg-gray-50">
+          <p className="text-xs text-gray-500 mb-4">
+            Backups are kept encrypted in the <span className="font-mono">backups</span> folder
+            inside your data folder. Daily entries are not part of these backups.
+          </p>
+          <button
+            onClick={onClose}
+            className="w-full px-4 py-3 bg-white border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default BackupsView;
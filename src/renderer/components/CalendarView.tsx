@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { DailyEntry, AppData } from '../types';
+import { calculateDayTotals } from '../../shared/nutritionStats';
 import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isSameDay, parseISO, addMonths, subMonths } from 'date-fns';
 
 interface CalendarViewProps {
@@ -44,21 +45,6 @@ function CalendarView({ appData, onClose }: CalendarViewProps) {
     return entries.find(e => e.date === dateStr);
   };
 
-  const calculateDayTotals = (entry: DailyEntry) => {
-    return entry.meals.reduce(
-      (totals, meal) => {
-        meal.foods.forEach(food => {
-          totals.calories += food.calories;
-          totals.protein += food.protein;
-          totals.carbs += food.carbs;
-          totals.fats += food.fats;
-        });
-        return totals;
-      },
-      { calories: 0, protein: 0, carbs: 0, fats: 0 }
-    );
-  };
-
   const getDayColor = (entry: DailyEntry) => {
     const totals = calculateDayTotals(entry);
     const goal = appData.goals.dailyCalories;
@@ -0,0 +1,232 @@
+import { useState } from 'react';
+import { format, parseISO, subDays } from 'date-fns';
+import { DailyEntry, MealEntry } from '../types';
+import { DATE_FORMAT, formatDisplayDate, getTodayDateString } from '../utils/dateUtils';
+import { CopyMode, CopyScope, MAX_COPY_DAYS, copyMealsInto, datesInRange, mealsToCopy } from '../utils/mealCopy';
+import { useToast } from './Toast';
+
+interface CopyMealsDialogProps {
+  entry: DailyEntry;
+  // The meal the dialog was opened from; without one the whole day is copied
+  meal?: MealEntry;
+  onCopied: () => void;
+  onClose: () => void;
+}
+
+function CopyMealsDialog({ entry, meal, onCopied, onClose }: CopyMealsDialogProps) {
+  const today = getTodayDateString();
+  // Future days can't be logged, so today's meals default to the day before
+  const defaultDate = entry.date < today ? today : format(subDays(parseISO(entry.date), 1), DATE_FORMAT);
+  const [scope, setScope] = useState<CopyScope>(meal ? 'meal' : 'day');
+  const [startDate, setStartDate] = useState(defaultDate);
+  const [endDate, setEndDate] = useState(defaultDate);
+  const [mode, setMode] = useState<CopyMode>('append');
+  const [isCopying, setIsCopying] = useState(false);
+  const { showToast } = useToast();
+
+  const meals = mealsToCopy(entry, scope, meal);
+  const targetDates = datesInRange(startDate, endDate).filter(date => date !== entry.date);
+
+  const scopeOptions: { value: CopyScope; label: string }[] = [
+    ...(meal
+      ? [
+          { value: 'meal' as const, label: 'This meal' },
+          { value: 'mealType' as const, label: `All ${meal.mealType} meals of the day` },
+        ]
+      : []),
+    { value: 'day', label: 'All meals of the day' },
+  ];
+
+  const modeOptions: { value: CopyMode; label: string; description: string }[] = [
+    { value: 'append', label: 'Add to existing meals', description: 'Meals already logged on those days are kept.' },
+    {
+      value: 'overwrite',
+      label: 'Replace existing meals',
+      description:
+        scope === 'day'
+          ? 'All meals already logged on those days are removed.'
+          : 'Meals of the same type already logged on those days are removed.',
+    },
+  ];
+
+  const handleCopy = async () => {
+    if (startDate > endDate) {
+      showToast('error', 'The start date must be before the end date');
+      return;
+    }
+    if (targetDates.length === 0) {
+      showToast('warning', 'Choose days other than the one being copied');
+      return;
+    }
+    if (targetDates.length > MAX_COPY_DAYS) {
+      showToast('error', `Meals can be copied to at most ${MAX_COPY_DAYS} days at once`);
+      return;
+    }
+    if (mode === 'overwrite' && !confirm(`Replace meals on ${targetDates.length} day(s)?`)) {
+      return;
+    }
+
+    setIsCopying(true);
+    try {
+      const existing = await window.electronAPI.getDailyEntries(targetDates[0], targetDates[targetDates.length - 1]);
+      const stamp = Date.now();
+      let copiedDays = 0;
+
+      for (const date of targetDates) {
+        const target: DailyEntry = existing.find(e => e.date === date) ?? {
+          id: date,
+          date,
+          meals: [],
+          water: { glasses: 0, ounces: 0 },
+          tags: [],
+        };
+        const result = await window.electronAPI.saveDailyEntry(
+          copyMealsInto(target, meals, mode, scope, `meal-${stamp}-${date}`)
+        );
+        if (!result.success) {
+          showToast('error', `Failed to copy to ${formatDisplayDate(date)}: ${result.error || 'unknown error'}`);
+          break;
+        }
+        copiedDays++;
+      }
+
+      if (copiedDays > 0) {
+        onCopied();
+      }
+      if (copiedDays === targetDates.length) {
+        showToast('success', `Copied ${meals.length} meal(s) to ${copiedDays} day(s)`);
+        onClose();
+      }
+    } catch (error) {
+      console.error('Error copying meals:', error);
+      showToast('error', 'An error occurred while copying meals');
+    } finally {
+      setIsCopying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-orange-500 to-orange-600 text-white p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold">Copy Meals</h2>
+              <p className="text-sm text-white/90 mt-1">From {formatDisplayDate(entry.date)}</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-white hover:bg-orange-600 rounded-lg p-2 transition-colors"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M6 18L18 6M6 6l12 12"
+                />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-auto p-6 space-y-6">
+          {scopeOptions.length > 1 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-gray-700">Copy</p>
+              {scopeOptions.map(option => (
+                <label key={option.value} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    checked={scope === option.value}
+                    onChange={() => setScope(option.value)}
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+          )}
+
+          <p className="text-sm text-gray-600">
+            {meals.length} meal(s): {meals.map(m => m.mealType).join(', ')}
+          </p>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">To days from</label>
+              <input
+                type="date"
+                value={startDate}
+                max={today}
+                onChange={(e) => {
+                  setStartDate(e.target.value);
+                  if (e.target.value > endDate) setEndDate(e.target.value);
+                }}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Until</label>
+              <input
+                type="date"
+                value={endDate}
+                min={startDate}
+                max={today}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+          {datesInRange(startDate, endDate).includes(entry.date) && (
+            <p className="text-xs text-gray-500">
+              {formatDisplayDate(entry.date)} is the day being copied and is skipped.
+            </p>
+          )}
+
+          <div className="space-y-2">
+            {modeOptions.map(option => (
+              <label
+                key={option.value}
+                className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                  mode === option.value ? 'border-orange-500 bg-orange-50' : 'border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                <input
+                  type="radio"
+                  checked={mode === option.value}
+                  onChange={() => setMode(option.value)}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+                  <span className="block text-xs text-gray-500 mt-0.5">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="border-t border-gray-200 p-6 bg-gray-50 flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-3 bg-white border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleCopy}
+            disabled={isCopying || meals.length === 0}
+            className="flex-1 px-4 py-3 bg-orange-500 text-white rounded-lg font-medium hover:bg-orange-600 disabled:opacity-50 transition-colors"
+          >
+            {isCopying ? 'Copying...' : `Copy to ${targetDates.length} Day(s)`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default CopyMealsDialog;
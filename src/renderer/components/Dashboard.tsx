@@ -1,11 +1,15 @@
 import React, { useState, useEffect } from 'react';
-import { DailyEntry, AppData, MealEntry, ExerciseEntry } from '../types';
+import { DailyEntry, AppData, MealEntry, MealTemplate, ExerciseEntry } from '../types';
 import { getTodayDateString, formatDisplayDate, formatDisplayTime } from '../utils/dateUtils';
 import { calculateMealTotals, calculateProgress, getProgressColor } from '../utils/calculations';
+import { formatPortion, scaledFood } from '../../shared/servings';
+import { MICRONUTRIENTS } from '../../shared/nutrients';
 import { useToast } from './Toast';
 import MealLogger from './MealLogger';
 import ExerciseLogger from './ExerciseLogger';
 import QuickEntry from './QuickEntry';
+import SaveMealTemplateDialog from './SaveMealTemplateDialog';
+import CopyMealsDialog from './CopyMealsDialog';
 
 interface DashboardProps {
   appData: AppData;
@@ -21,6 +25,9 @@ function Dashboard({ appData, onDataChange, onOpenWeightTracker }: DashboardProp
   const [showExerciseLogger, setShowExerciseLogger] = useState(false);
   const [showQuickEntry, setShowQuickEntry] = useState(false);
   const [editingMeal, setEditingMeal] = useState<MealEntry | null>(null);
+  const [templateMeal, setTemplateMeal] = useState<MealEntry | null>(null);
+  // Null when closed; no meal means the whole day is being copied
+  const [copySource, setCopySource] = useState<{ meal?: MealEntry } | null>(null);
   const { showToast } = useToast();
   const today = getTodayDateString();
 
@@ -28,6 +35,15 @@ function Dashboard({ appData, onDataChange, onOpenWeightTracker }: DashboardProp
     loadEntryForDate(selectedDate);
   }, [selectedDate]);
 
+  // Pick up changes to this day made on another computer
+  useEffect(() => {
+    return window.electronAPI.onDataChanged((change) => {
+      if (change.kind === 'daily' && change.date === selectedDate) {
+        loadEntryForDate(selectedDate);
+      }
+    });
+  }, [selectedDate]);
+
   const loadEntryForDate = async (date: string) => {
     setIsLoading(true);
     try {
@@ -86,10 +102,7 @@ function Dashboard({ appData, onDataChange, onOpenWeightTracker }: DashboardProp
   const isFutureDate = selectedDate > today;
 
   const calculateTotals = () => {
-    if (!todayEntry) {
-      return { calories: 0, protein: 0, carbs: 0, fats: 0 };
-    }
-    return calculateMealTotals(todayEntry.meals);
+    return calculateMealTotals(todayEntry?.meals || []);
   };
 
   const handleMealAdded = async (meal: MealEntry) => {
@@ -238,6 +251,29 @@ function Dashboard({ appData, onDataChange, onOpenWeightTracker }: DashboardProp
     }
   };
 
+  // A template is logged as a copy with its own id, so the same template can
+  // be applied to a day more than once
+  const handleApplyTemplate = (template: MealTemplate) => {
+    handleMealAdded({ ...template.meal, id: `meal-${Date.now()}` });
+  };
+
+  const handleDeleteTemplate = async (template: MealTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"?`)) {
+      return;
+    }
+
+    const result = await window.electronAPI.saveAppData({
+      ...appData,
+      mealTemplates: appData.mealTemplates.filter(t => t.id !== template.id),
+    });
+    if (result.success) {
+      onDataChange();
+      showToast('success', 'Template deleted');
+    } else {
+      showToast('error', result.error || 'Failed to delete template');
+    }
+  };
+
   const handleCloseMealLogger = () => {
     setShowMealLogger(false);
     setEditingMeal(null);
@@ -253,6 +289,7 @@ function Dashboard({ appData, onDataChange, onOpenWeightTracker }: DashboardProp
 
   const totals = calculateTotals();
   const goals = appData.goals;
+  const trackedMicronutrients = MICRONUTRIENTS.filter(({ key }) => goals[key] !== undefined);
 
   return (
     <div className="space-y-6">
@@ -387,6 +424,40 @@ function Dashboard({ appData, onDataChange, onOpenWeightTracker }: DashboardProp
         </div>
       </div>
 
+      {/* Micronutrients, for the ones with a goal or limit */}
+      {trackedMicronutrients.length > 0 && (
+        <div className="bg-white rounded-lg shadow p-5">
+          <h4 className="text-sm font-medium text-gray-600 mb-4">Micronutrients</h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-4">
+            {trackedMicronutrients.map(({ key, label, unit, target }) => {
+              const goal = goals[key]!;
+              return (
+                <div key={key}>
+                  <div className="flex items-center justify-between mb-1 text-sm">
+                    <span className="text-gray-700">{label}</span>
+                    <span className="font-medium text-gray-900">
+                      {Math.round(totals[key])}{unit}{' '}
+                      <span className="text-gray-500 font-normal">
+                        / {goal}{unit} {target === 'goal' ? 'goal' : 'limit'}
+                      </span>
+                    </span>
+                  </div>
+                  <div className="w-full bg-gray-200 rounded-full h-2 overflow-hidden">
+                    <div
+                      className={`${
+                        // Reaching a goal is good; only limits turn yellow and red
+                        target === 'goal' ? 'bg-green-500' : getProgressColor(totals[key], goal)
+                      } h-full transition-all duration-500`}
+                      style={{ width: `${calculateProgress(totals[key], goal)}%` }}
+                    ></div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Quick Stats Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         {/* Water Intake */}
@@ -503,8 +574,16 @@ function Dashboard({ appData, onDataChange, onOpenWeightTracker }: DashboardProp
 
       {/* Today's Meals */}
       <div className="bg-white rounded-lg shadow">
-        <div className="p-5 border-b border-gray-200">
+        <div className="p-5 border-b border-gray-200 flex items-center justify-between">
           <h3 className="text-lg font-semibold text-gray-900">Today's Meals</h3>
+          {todayEntry && todayEntry.meals.length > 0 && (
+            <button
+              onClick={() => setCopySource({})}
+              className="text-sm text-orange-600 hover:text-orange-700 font-medium"
+            >
+              Copy Day...
+            </button>
+          )}
         </div>
         <div className="p-5">
           {todayEntry && todayEntry.meals.length > 0 ? (
@@ -517,6 +596,24 @@ function Dashboard({ appData, onDataChange, onOpenWeightTracker }: DashboardProp
                       <span className="text-sm text-gray-500">{formatDisplayTime(meal.time)}</span>
                     </div>
                     <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button
+                        onClick={() => setCopySource({ meal })}
+                        className="text-gray-600 hover:text-gray-700 p-1 rounded hover:bg-gray-100 transition-colors"
+                        title="Copy to other days"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                        </svg>
+                      </button>
+                      <button
+                        onClick={() => setTemplateMeal(meal)}
+                        className="text-orange-600 hover:text-orange-700 p-1 rounded hover:bg-orange-50 transition-colors"
+                        title="Save as template"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+                        </svg>
+                      </button>
                       <button
                         onClick={() => handleEditMeal(meal)}
                         className="text-blue-600 hover:text-blue-700 p-1 rounded hover:bg-blue-50 transition-colors"
@@ -545,9 +642,9 @@ function Dashboard({ appData, onDataChange, onOpenWeightTracker }: DashboardProp
                       >
                         <span>
                           {food.name}
-                          {food.servingSize && ` (${food.servingSize})`}
+                          {formatPortion(food) && ` (${formatPortion(food)})`}
                         </span>
-                        <span className="font-medium">{food.calories} cal</span>
+                        <span className="font-medium">{Math.round(scaledFood(food).calories)} cal</span>
                       </div>
                     ))}
                   </div>
@@ -581,6 +678,42 @@ function Dashboard({ appData, onDataChange, onOpenWeightTracker }: DashboardProp
         </div>
       </div>
 
+      {/* Meal Templates */}
+      {appData.mealTemplates.length > 0 && (
+        <div className="bg-white rounded-lg shadow">
+          <div className="p-5 border-b border-gray-200">
+            <h3 className="text-lg font-semibold text-gray-900">Meal Templates</h3>
+            <p className="text-sm text-gray-500 mt-1">Click a template to log it on this day</p>
+          </div>
+          <div className="p-5 flex flex-wrap gap-2">
+            {appData.mealTemplates.map((template) => (
+              <div
+                key={template.id}
+                className="flex items-center border border-orange-200 bg-orange-50 rounded-full hover:bg-orange-100 transition-colors"
+              >
+                <button
+                  onClick={() => handleApplyTemplate(template)}
+                  className="pl-4 pr-2 py-2 text-sm text-left"
+                  title={template.meal.foods.map(food => food.name).join(', ')}
+                >
+                  <span className="font-medium text-gray-900">{template.name}</span>
+                  <span className="text-gray-500 ml-2">
+                    {Math.round(calculateMealTotals([template.meal]).calories)} cal
+                  </span>
+                </button>
+                <button
+                  onClick={() => handleDeleteTemplate(template)}
+                  className="pr-3 pl-1 py-2 text-gray-400 hover:text-red-600 transition-colors"
+                  title="Delete template"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Quick Actions */}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
         <button
@@ -683,6 +816,26 @@ function Dashboard({ appData, onDataChange, onOpenWeightTracker }: DashboardProp
         />
       )}
 
+      {/* Save Meal Template Dialog */}
+      {templateMeal && (
+        <SaveMealTemplateDialog
+          appData={appData}
+          meal={templateMeal}
+          onSaved={onDataChange}
+          onClose={() => setTemplateMeal(null)}
+        />
+      )}
+
+      {/* Copy Meals Dialog */}
+      {copySource && todayEntry && (
+        <CopyMealsDialog
+          entry={todayEntry}
+          meal={copySource.meal}
+          onCopied={onDataChange}
+          onClose={() => setCopySource(null)}
+        />
+      )}
+
       {/* Quick Entry Modal */}
       {showQuickEntry && (
         <QuickEntry
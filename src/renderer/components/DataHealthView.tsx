@@ -0,0 +1,197 @@
+import { useState, useEffect } from 'react';
+import { HealthReport, HealthIssueStage } from '../types';
+import { useToast } from './Toast';
+
+interface DataHealthViewProps {
+  onClose: () => void;
+  onDataUpdated: () => void;
+  onOpenBackups: () => void;
+}
+
+const STAGE_LABELS: Record<HealthIssueStage, string> = {
+  read: 'Unreadable file',
+  frontmatter: 'Broken frontmatter',
+  decrypt: 'Cannot decrypt',
+  json: 'Invalid JSON',
+  schema: 'Invalid data',
+};
+
+function DataHealthView({ onClose, onDataUpdated, onOpenBackups }: DataHealthViewProps) {
+  const [report, setReport] = useState<HealthReport | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isQuarantining, setIsQuarantining] = useState(false);
+  const { showToast } = useToast();
+
+  useEffect(() => {
+    runCheck();
+  }, []);
+
+  const runCheck = async () => {
+    setIsLoading(true);
+    try {
+      const result = await window.electronAPI.checkDataHealth();
+      setReport(result);
+      setSelectedFiles(result ? result.issues.map(issue => issue.file) : []);
+      if (!result) {
+        showToast('error', 'Failed to check data folder');
+      }
+    } catch (error) {
+      console.error('Error checking data health:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleFile = (file: string) => {
+    setSelectedFiles(prev =>
+      prev.includes(file) ? prev.filter(f => f !== file) : [...prev, file]
+    );
+  };
+
+  const handleQuarantine = async () => {
+    if (selectedFiles.length === 0) return;
+
+    if (!confirm(`Move ${selectedFiles.length} file(s) to the quarantine folder?`)) {
+      return;
+    }
+
+    setIsQuarantining(true);
+    try {
+      const result = await window.electronAPI.quarantineFiles(selectedFiles);
+      if (result.moved.length > 0) {
+        showToast('success', `Moved ${result.moved.length} file(s) to quarantine`);
+        onDataUpdated();
+      }
+      if (!result.success) {
+        showToast('error', result.error || `Failed to move ${result.failed.length} file(s)`);
+      }
+      await runCheck();
+    } finally {
+      setIsQuarantining(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-teal-500 to-teal-600 text-white p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold">Data Health</h2>
+              <p className="text-sm text-white/90 mt-1">
+                Find files in your data folder that can't be loaded
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-white hover:bg-teal-600 rounded-lg p-2 transition-colors"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M6 18L18 6M6 6l12 12"
+                />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-auto p-6">
+          {isLoading ? (
+            <div className="flex items-center justify-center h-48">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-teal-500"></div>
+            </div>
+          ) : !report ? (
+            <div className="text-center py-12 text-gray-500">Unable to check the data folder</div>
+          ) : report.issues.length === 0 ? (
+            <div className="text-center py-12">
+              <svg
+                className="w-16 h-16 text-green-400 mx-auto mb-3"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z"
+                />
+              </svg>
+              <p className="text-gray-900 font-medium">All {report.filesChecked} files look healthy</p>
+              <p className="text-sm text-gray-500 mt-1">Nothing needs your attention</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                {report.issues.length} of {report.filesChecked} files could not be loaded. Quarantined
+                files are moved to the <span className="font-mono">quarantine</span> folder inside your
+                data folder, so you can inspect or restore them later. They are not re-encrypted
+                when you change your password.
+              </div>
+
+              <div className="space-y-2">
+                {report.issues.map(issue => (
+                  <label
+                    key={issue.file}
+                    className="flex items-start gap-3 p-4 bg-gray-50 rounded-lg cursor-pointer hover:bg-gray-100 transition-colors"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selectedFiles.includes(issue.file)}
+                      onChange={() => toggleFile(issue.file)}
+                      className="mt-1 w-4 h-4 text-teal-500 border-gray-300 rounded focus:ring-teal-500"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-mono text-sm text-gray-900">{issue.file}</span>
+                        <span className="px-2 py-0.5 bg-red-100 text-red-700 text-xs rounded-full">
+                          {STAGE_LABELS[issue.stage]}
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1 break-words">{issue.reason}</p>
+                    </div>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="border-t border-gray-200 p-6 bg-gray-50">
+          <div className="flex gap-3">
+            <button
+              onClick={onOpenBackups}
+              disabled={isQuarantining}
+              className="flex-1 px-4 py-3 bg-white border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 disabled:opacity-50 transition-colors"
+            >
+              Restore Backup
+            </button>
+            <button
+              onClick={runCheck}
+              disabled={isLoading || isQuarantining}
+              className="flex-1 px-4 py-3 bg-white border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 disabled:opacity-50 transition-colors"
+            >
+              Check Again
+            </button>
+            <button
+              onClick={handleQuarantine}
+              disabled={isLoading || isQuarantining || selectedFiles.length === 0}
+              className="flex-1 px-4 py-3 bg-teal-500 hover:bg-teal-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors"
+            >
+              {isQuarantining ? 'Moving...' : `Quarantine Selected (${selectedFiles.length})`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default DataHealthView;
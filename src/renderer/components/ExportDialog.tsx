@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import { format, subDays } from 'date-fns';
+import { ExportFormat } from '../types';
+import { useToast } from './Toast';
+
+interface ExportDialogProps {
+  onClose: () => void;
+}
+
+const FORMAT_OPTIONS: { value: ExportFormat; label: string; description: string }[] = [
+  { value: 'csv', label: 'Daily summary (CSV)', description: 'One row per day with totals. Can be imported again.' },
+  { value: 'csv-itemized', label: 'Every food (CSV)', description: 'One row per food eaten, with meal, time, serving size, macros and notes.' },
+  { value: 'json', label: 'Complete (JSON)', description: 'All details of each day. Can be imported again.' },
+  { value: 'ics', label: 'Calendar (iCalendar)', description: 'Meals and workouts as events for your calendar app. Importing again updates them.' },
+];
+
+function ExportDialog({ onClose }: ExportDialogProps) {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [startDate, setStartDate] = useState(format(subDays(new Date(), 30), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(today);
+  const [includeExercise, setIncludeExercise] = useState(true);
+  const [includeWater, setIncludeWater] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const { showToast } = useToast();
+
+  const handleExport = async () => {
+    if (startDate > endDate) {
+      showToast('error', 'The start date must be before the end date');
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const result = await window.electronAPI.exportData(exportFormat, startDate, endDate, {
+        includeExercise,
+        includeWater,
+      });
+      if (result.success) {
+        const count = result.files?.length || 1;
+        showToast('success', count > 1 ? `Exported ${count} files` : 'Export saved');
+        onClose();
+      } else if (!result.canceled) {
+        showToast('error', result.error || 'Failed to export');
+      }
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      showToast('error', 'An error occurred while exporting');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-indigo-500 to-indigo-600 text-white p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold">Export</h2>
+              <p className="text-sm text-white/90 mt-1">
+                Save your log for a spreadsheet, your dietitian or another computer
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-white hover:bg-indigo-600 rounded-lg p-2 transition-colors"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M6 18L18 6M6 6l12 12"
+                />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-auto p-6 space-y-6">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">From</label>
+              <input
+                type="date"
+                value={startDate}
+                max={endDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">To</label>
+              <input
+                type="date"
+                value={endDate}
+                min={startDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {FORMAT_OPTIONS.map(option => (
+              <label
+                key={option.value}
+                className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                  exportFormat === option.value ? 'border-indigo-500 bg-indigo-50' : 'border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                <input
+                  type="radio"
+                  checked={exportFormat === option.value}
+                  onChange={() => setExportFormat(option.value)}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+                  <span className="block text-xs text-gray-500 mt-0.5">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          {exportFormat === 'csv-itemized' && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-gray-700">Also save as separate files:</p>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={includeExercise}
+                  onChange={(e) => setIncludeExercise(e.target.checked)}
+                  className="w-4 h-4 text-indigo-500 bg-gray-100 border-gray-300 rounded focus:ring-indigo-500 focus:ring-2"
+                />
+                Exercise
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={includeWater}
+                  onChange={(e) => setIncludeWater(e.target.checked)}
+                  className="w-4 h-4 text-indigo-500 bg-gray-100 border-gray-300 rounded focus:ring-indigo-500 focus:ring-2"
+                />
+                Water
+              </label>
+              <p className="text-xs text-gray-500">
+                Saved next to the foods file, named like it with "-exercise" and "-water" added.
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="border-t border-gray-200 p-6 bg-gray-50 flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-3 bg-white border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="flex-1 px-4 py-3 bg-indigo-500 text-white rounded-lg font-medium hover:bg-indigo-600 disabled:opacity-50 transition-colors"
+          >
+            {isExporting ? 'Exporting...' : 'Export...'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ExportDialog;
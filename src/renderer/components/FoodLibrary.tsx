@@ -1,5 +1,11 @@
 import React, { useState } from 'react';
-import { SavedFood, AppData, FoodItem } from '../types';
+import { SavedFood, AppData, FoodItem, Recipe } from '../types';
+import { servingText } from '../../shared/servings';
+import { MICRONUTRIENTS, pickMicronutrients } from '../../shared/nutrients';
+import { recipeServing, unusableIngredients } from '../../shared/recipes';
+import ServingInput from './ServingInput';
+import MicronutrientInputs from './MicronutrientInputs';
+import RecipeEditor from './RecipeEditor';
 
 interface FoodLibraryProps {
   appData: AppData;
@@ -7,21 +13,21 @@ interface FoodLibraryProps {
   onDataUpdated: () => void;
 }
 
-type ViewMode = 'list' | 'add' | 'edit';
+type ViewMode = 'list' | 'add' | 'edit' | 'recipe';
 
 function FoodLibrary({ appData, onClose, onDataUpdated }: FoodLibraryProps) {
   const [viewMode, setViewMode] = useState<ViewMode>('list');
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
   const [editingFood, setEditingFood] = useState<SavedFood | null>(null);
+  const [recipeForm, setRecipeForm] = useState<Recipe | null>(null);
 
-  const [formData, setFormData] = useState<FoodItem & { category?: string }>({
+  const [formData, setFormData] = useState<FoodItem & { category?: string; per100g?: boolean }>({
     name: '',
     calories: 0,
     protein: 0,
     carbs: 0,
     fats: 0,
-    servingSize: '',
     category: '',
   });
 
@@ -43,6 +49,13 @@ function FoodLibrary({ appData, onClose, onDataUpdated }: FoodLibraryProps) {
       return a.name.localeCompare(b.name);
     });
 
+  // Recipes have no category, so they are only listed under All
+  const filteredRecipes = selectedCategory === 'all'
+    ? appData.recipes
+        .filter((recipe) => recipe.name.toLowerCase().includes(searchQuery.toLowerCase()))
+        .sort((a, b) => b.useCount - a.useCount || a.name.localeCompare(b.name))
+    : [];
+
   const handleStartAdd = () => {
     setFormData({
       name: '',
@@ -50,7 +63,6 @@ function FoodLibrary({ appData, onClose, onDataUpdated }: FoodLibraryProps) {
       protein: 0,
       carbs: 0,
       fats: 0,
-      servingSize: '',
       category: 'Other',
     });
     setViewMode('add');
@@ -64,7 +76,10 @@ function FoodLibrary({ appData, onClose, onDataUpdated }: FoodLibraryProps) {
       protein: food.protein,
       carbs: food.carbs,
       fats: food.fats,
-      servingSize: food.servingSize,
+      serving: food.serving,
+      servingLabel: food.servingLabel,
+      per100g: food.per100g,
+      ...pickMicronutrients(food),
       category: food.category || 'Other',
     });
     setViewMode('edit');
@@ -89,7 +104,11 @@ function FoodLibrary({ appData, onClose, onDataUpdated }: FoodLibraryProps) {
           protein: formData.protein,
           carbs: formData.carbs,
           fats: formData.fats,
-          servingSize: formData.servingSize,
+          serving: formData.per100g ? undefined : formData.serving,
+          // An amount and unit replace the label
+          servingLabel: formData.per100g || formData.serving ? undefined : formData.servingLabel,
+          per100g: formData.per100g || undefined,
+          ...pickMicronutrients(formData),
           category: formData.category,
         };
       }
@@ -102,7 +121,9 @@ function FoodLibrary({ appData, onClose, onDataUpdated }: FoodLibraryProps) {
         protein: formData.protein,
         carbs: formData.carbs,
         fats: formData.fats,
-        servingSize: formData.servingSize,
+        serving: formData.per100g ? undefined : formData.serving,
+        per100g: formData.per100g || undefined,
+        ...pickMicronutrients(formData),
         category: formData.category,
         useCount: 0,
         lastUsed: new Date().toISOString(),
@@ -110,6 +131,21 @@ function FoodLibrary({ appData, onClose, onDataUpdated }: FoodLibraryProps) {
       updatedSavedFoods.push(newFood);
     }
 
+    // Switching between per serving and per 100 g can leave recipe amounts that
+    // no longer convert, e.g. grams of a food without a serving size in grams
+    const affected = appData.recipes.filter((recipe) =>
+      unusableIngredients(recipe, updatedSavedFoods) > unusableIngredients(recipe, appData.savedFoods)
+    );
+    if (
+      affected.length > 0 &&
+      !confirm(
+        `${affected.map((recipe) => recipe.name).join(', ')} measure this food in a way that no longer fits. ` +
+          'Those recipes will not count it until the amount is set again. Save anyway?'
+      )
+    ) {
+      return;
+    }
+
     const result = await window.electronAPI.saveAppData({
       ...appData,
       savedFoods: updatedSavedFoods,
@@ -125,7 +161,14 @@ function FoodLibrary({ appData, onClose, onDataUpdated }: FoodLibraryProps) {
   };
 
   const handleDeleteFood = async (foodId: string) => {
-    if (!confirm('Are you sure you want to delete this food?')) {
+    const usedIn = appData.recipes.filter((recipe) =>
+      recipe.ingredients.some((ingredient) => ingredient.foodId === foodId)
+    );
+    const message = usedIn.length > 0
+      ? `This food is an ingredient of ${usedIn.map((recipe) => recipe.name).join(', ')}. ` +
+        'Those recipes will no longer count it. Delete it anyway?'
+      : 'Are you sure you want to delete this food?';
+    if (!confirm(message)) {
       return;
     }
 
@@ -143,11 +186,70 @@ function FoodLibrary({ appData, onClose, onDataUpdated }: FoodLibraryProps) {
     }
   };
 
+  const handleStartRecipe = (recipe?: Recipe) => {
+    setRecipeForm(
+      recipe || {
+        id: `recipe-${Date.now()}`,
+        name: '',
+        ingredients: [],
+        servings: 4,
+        useCount: 0,
+      }
+    );
+    setViewMode('recipe');
+  };
+
+  const handleSaveRecipe = async () => {
+    if (!recipeForm) return;
+    if (!recipeForm.name.trim() || recipeForm.ingredients.length === 0) {
+      alert('Please enter a recipe name and at least one ingredient');
+      return;
+    }
+
+    const exists = appData.recipes.some((recipe) => recipe.id === recipeForm.id);
+    const updatedRecipes = exists
+      ? appData.recipes.map((recipe) => (recipe.id === recipeForm.id ? recipeForm : recipe))
+      : [...appData.recipes, recipeForm];
+
+    const result = await window.electronAPI.saveAppData({
+      ...appData,
+      recipes: updatedRecipes,
+    });
+
+    if (result.success) {
+      onDataUpdated();
+      setViewMode('list');
+      setRecipeForm(null);
+    } else {
+      alert('Failed to save recipe: ' + (result.error || 'Unknown error'));
+    }
+  };
+
+  const handleDeleteRecipe = async (recipeId: string) => {
+    if (!confirm('Are you sure you want to delete this recipe?')) {
+      return;
+    }
+
+    const result = await window.electronAPI.saveAppData({
+      ...appData,
+      recipes: appData.recipes.filter((recipe) => recipe.id !== recipeId),
+    });
+
+    if (result.success) {
+      onDataUpdated();
+    } else {
+      alert('Failed to delete recipe: ' + (result.error || 'Unknown error'));
+    }
+  };
+
   const handleCancel = () => {
     setViewMode('list');
     setEditingFood(null);
+    setRecipeForm(null);
   };
 
+  const isNewRecipe = !!recipeForm && !appData.recipes.some((recipe) => recipe.id === recipeForm.id);
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
       <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl max-h-[90vh] overflow-hidden flex flex-col">
@@ -160,11 +262,15 @@ function FoodLibrary({ appData, onClose, onDataUpdated }: FoodLibraryProps) {
                   ? 'Food Library'
                   : viewMode === 'add'
                   ? 'Add New Food'
+                  : viewMode === 'recipe'
+                  ? isNewRecipe ? 'New Recipe' : 'Edit Recipe'
                   : 'Edit Food'}
               </h2>
               <p className="text-sm text-white/90 mt-1">
                 {viewMode === 'list'
-                  ? `${appData.savedFoods.length} saved foods`
+                  ? `${appData.savedFoods.length} saved foods, ${appData.recipes.length} recipes`
+                  : viewMode === 'recipe'
+                  ? 'Combine saved foods; nutrition per serving is calculated for you'
                   : 'Enter nutritional information'}
               </p>
             </div>
@@ -227,6 +333,20 @@ function FoodLibrary({ appData, onClose, onDataUpdated }: FoodLibraryProps) {
                     </svg>
                     Add Food
                   </button>
+                  <button
+                    onClick={() => handleStartRecipe()}
+                    className="px-6 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg font-medium transition-colors flex items-center gap-2"
+                  >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M12 4v16m8-8H4"
+                      />
+                    </svg>
+                    New Recipe
+                  </button>
                 </div>
 
                 {/* Category Filter */}
@@ -247,6 +367,94 @@ function FoodLibrary({ appData, onClose, onDataUpdated }: FoodLibraryProps) {
                 </div>
               </div>
 
+              {/* Recipes List */}
+              {filteredRecipes.length > 0 && (
+                <div className="mb-6">
+                  <h3 className="text-sm font-semibold text-gray-700 mb-3">Recipes</h3>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {filteredRecipes.map((recipe) => {
+                      const perServing = recipeServing(recipe, appData.savedFoods);
+                      const unusable = unusableIngredients(recipe, appData.savedFoods);
+                      return (
+                        <div
+                          key={recipe.id}
+                          className="bg-white border border-gray-200 rounded-lg p-4 hover:shadow-md transition-shadow"
+                        >
+                          <div className="flex items-start justify-between mb-2">
+                            <div className="flex-1">
+                              <h3 className="font-semibold text-gray-900">{recipe.name}</h3>
+                              <p className="text-sm text-gray-500">
+                                {recipe.ingredients.length} ingredients, makes {recipe.servings} servings
+                              </p>
+                              {unusable > 0 && (
+                                <p className="text-xs text-red-600 mt-1">
+                                  {unusable} ingredient{unusable === 1 ? ' was' : 's were'} deleted or changed and {unusable === 1 ? 'is' : 'are'} not counted
+                                </p>
+                              )}
+                            </div>
+                            <div className="flex gap-1 ml-2">
+                              <button
+                                onClick={() => handleStartRecipe(recipe)}
+                                className="p-2 text-gray-600 hover:text-orange-600 hover:bg-orange-50 rounded-lg transition-colors"
+                                title="Edit"
+                              >
+                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path
+                                    strokeLinecap="round"
+                                    strokeLinejoin="round"
+                                    strokeWidth={2}
+                                    d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
+                                  />
+                                </svg>
+                              </button>
+                              <button
+                                onClick={() => handleDeleteRecipe(recipe.id)}
+                                className="p-2 text-gray-600 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                title="Delete"
+                              >
+                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path
+                                    strokeLinecap="round"
+                                    strokeLinejoin="round"
+                                    strokeWidth={2}
+                                    d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                                  />
+                                </svg>
+                              </button>
+                            </div>
+                          </div>
+
+                          <div className="grid grid-cols-4 gap-3 mt-3 text-center">
+                            <div>
+                              <div className="text-lg font-bold text-orange-600">
+                                {Math.round(perServing.calories)}
+                              </div>
+                              <div className="text-xs text-gray-600">cal</div>
+                            </div>
+                            <div>
+                              <div className="text-lg font-bold text-gray-700">{Math.round(perServing.protein)}g</div>
+                              <div className="text-xs text-gray-600">protein</div>
+                            </div>
+                            <div>
+                              <div className="text-lg font-bold text-gray-700">{Math.round(perServing.carbs)}g</div>
+                              <div className="text-xs text-gray-600">carbs</div>
+                            </div>
+                            <div>
+                              <div className="text-lg font-bold text-gray-700">{Math.round(perServing.fats)}g</div>
+                              <div className="text-xs text-gray-600">fats</div>
+                            </div>
+                          </div>
+                          <p className="mt-2 text-xs text-gray-500">Per serving</p>
+                        </div>
+                      );
+                    })}
+                  </div>
+                  {filteredFoods.length > 0 && (
+                    <h3 className="text-sm font-semibold text-gray-700 mt-6">Foods</h3>
+                  )}
+                </div>
+              )}
+
               {/* Foods List */}
               {filteredFoods.length > 0 ? (
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -258,8 +466,9 @@ function FoodLibrary({ appData, onClose, onDataUpdated }: FoodLibraryProps) {
                       <div className="flex items-start justify-between mb-2">
                         <div className="flex-1">
                           <h3 className="font-semibold text-gray-900">{food.name}</h3>
-                          {food.servingSize && (
-                            <p className="text-sm text-gray-500">{food.servingSize}</p>
+                          {food.per100g && <p className="text-sm text-gray-500">per 100 g</p>}
+                          {servingText(food) && (
+                            <p className="text-sm text-gray-500">{servingText(food)}</p>
                           )}
                           {food.category && (
                             <span className="inline-block mt-1 px-2 py-1 bg-orange-100 text-orange-700 text-xs rounded-full">
@@ -330,6 +539,14 @@ function FoodLibrary({ appData, onClose, onDataUpdated }: FoodLibraryProps) {
                         </div>
                       </div>
 
+                      {MICRONUTRIENTS.some(({ key }) => food[key] !== undefined) && (
+                        <p className="mt-2 text-xs text-gray-500">
+                          {MICRONUTRIENTS.filter(({ key }) => food[key] !== undefined)
+                            .map(({ key, label, unit }) => `${label} ${food[key]}${unit}`)
+                            .join(' · ')}
+                        </p>
+                      )}
+
                       {food.useCount > 0 && (
                         <div className="mt-3 pt-3 border-t border-gray-100">
                           <p className="text-xs text-gray-500">
@@ -372,6 +589,10 @@ function FoodLibrary({ appData, onClose, onDataUpdated }: FoodLibraryProps) {
                 </div>
               )}
             </>
+          ) : viewMode === 'recipe' && recipeForm ? (
+            <div className="max-w-2xl mx-auto">
+              <RecipeEditor recipe={recipeForm} savedFoods={appData.savedFoods} onChange={setRecipeForm} />
+            </div>
           ) : (
             // Add/Edit Form
             <div className="max-w-2xl mx-auto space-y-6">
@@ -388,16 +609,30 @@ function FoodLibrary({ appData, onClose, onDataUpdated }: FoodLibraryProps) {
 
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Serving Size (optional)
-                  </label>
-                  <input
-                    type="text"
-                    value={formData.servingSize || ''}
-                    onChange={(e) => setFormData({ ...formData, servingSize: e.target.value })}
-                    placeholder="e.g., 6 oz, 1 cup"
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Nutrition Per</label>
+                  <select
+                    value={formData.per100g ? '100g' : 'serving'}
+                    onChange={(e) => setFormData({ ...formData, per100g: e.target.value === '100g' })}
                     className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                  />
+                  >
+                    <option value="serving">Serving</option>
+                    <option value="100g">100 g (enter grams when logging)</option>
+                  </select>
+                  {!formData.per100g && (
+                    <div className="mt-2">
+                      <ServingInput
+                        serving={formData.serving}
+                        onChange={(serving) => setFormData({ ...formData, serving })}
+                        className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">Serving size (optional). Calories and macros are for one serving.</p>
+                      {formData.servingLabel && !formData.serving && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          Currently "{formData.servingLabel}"; entering an amount replaces it.
+                        </p>
+                      )}
+                    </div>
+                  )}
                 </div>
 
                 <div>
@@ -464,6 +699,12 @@ function FoodLibrary({ appData, onClose, onDataUpdated }: FoodLibraryProps) {
                 </div>
               </div>
 
+              <MicronutrientInputs
+                values={formData}
+                onChange={(values) => setFormData({ ...formData, ...values })}
+                className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+              />
+
               <div className="bg-orange-50 border border-orange-200 rounded-lg p-4">
                 <div className="grid grid-cols-4 gap-4 text-center">
                   <div>
@@ -501,10 +742,12 @@ function FoodLibrary({ appData, onClose, onDataUpdated }: FoodLibraryProps) {
                 Cancel
               </button>
               <button
-                onClick={handleSaveFood}
+                onClick={viewMode === 'recipe' ? handleSaveRecipe : handleSaveFood}
                 className="flex-1 px-4 py-3 bg-orange-500 hover:bg-orange-600 text-white rounded-lg font-medium transition-colors"
               >
-                {viewMode === 'edit' ? 'Update Food' : 'Save Food'}
+                {viewMode === 'recipe'
+                  ? isNewRecipe ? 'Save Recipe' : 'Update Recipe'
+                  : viewMode === 'edit' ? 'Update Food' : 'Save Food'}
               </button>
             </div>
           </div>
@@ -0,0 +1,252 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { FoodLogImportPreview, FoodLogSource, ImportConflictPolicy } from '../types';
+import { useToast } from './Toast';
+
+interface FoodLogImportViewProps {
+  onClose: () => void;
+}
+
+const SOURCE_NAMES: Record<FoodLogSource, string> = {
+  myfitnesspal: 'MyFitnessPal',
+  cronometer: 'Cronometer',
+};
+
+const POLICY_OPTIONS: { value: ImportConflictPolicy; label: string; description: string }[] = [
+  { value: 'skip', label: 'Skip', description: 'keep days you already have as they are' },
+  { value: 'merge', label: 'Merge', description: 'add meals you don\'t have yet to existing days' },
+  { value: 'overwrite', label: 'Overwrite', description: 'replace existing days with the imported ones' },
+];
+
+function FoodLogImportView({ onClose }: FoodLogImportViewProps) {
+  const [filePath, setFilePath] = useState<string | null>(null);
+  const [preview, setPreview] = useState<FoodLogImportPreview | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [policy, setPolicy] = useState<ImportConflictPolicy>('skip');
+  const { showToast } = useToast();
+
+  const handleChooseFile = async () => {
+    const selected = await window.electronAPI.selectFoodLogFile();
+    if (!selected) return;
+
+    setFilePath(selected);
+    setPreview(null);
+    setIsWorking(true);
+    try {
+      const result = await window.electronAPI.previewFoodLogImport(selected);
+      if (result.success && result.preview) {
+        setPreview(result.preview);
+      } else {
+        showToast('error', result.error || 'Failed to read file');
+      }
+    } catch (error) {
+      console.error('Error previewing import:', error);
+      showToast('error', 'An error occurred while reading the file');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!filePath || !preview) return;
+
+    setIsWorking(true);
+    try {
+      const result = await window.electronAPI.importFoodLog(filePath);
+      if (!result.success) {
+        showToast('error', result.error || 'Failed to import');
+        return;
+      }
+
+      if (result.failed && result.failed.length > 0) {
+        showToast('warning', `Imported ${result.meals} meals; ${result.failed.length} days could not be saved`);
+        console.error('Days that failed to import:', result.failed);
+      } else {
+        showToast('success', `Imported ${result.meals} meals into ${result.days} days`);
+      }
+      setPreview(null);
+      setFilePath(null);
+    } catch (error) {
+      console.error('Error importing food log:', error);
+      showToast('error', 'An error occurred while importing');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImportExport = async () => {
+    setIsWorking(true);
+    try {
+      const result = await window.electronAPI.importData(policy);
+      if (result.canceled) return;
+      if (!result.success) {
+        showToast('error', result.error || 'Failed to import');
+        return;
+      }
+
+      const invalid = result.invalid || [];
+      const summary = `Imported ${result.imported} days` +
+        (result.skipped ? `, skipped ${result.skipped} existing` : '');
+      if (invalid.length > 0) {
+        showToast('warning', `${summary}; ${invalid.length} days were invalid and left out`);
+        console.error('Days that failed to import:', invalid);
+      } else {
+        showToast('success', summary);
+      }
+    } catch (error) {
+      console.error('Error importing data:', error);
+      showToast('error', 'An error occurred while importing');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const daysWithMeals = preview ? preview.days.filter(day => day.meals > 0) : [];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-indigo-500 to-indigo-600 text-white p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold">Import</h2>
+              <p className="text-sm text-white/90 mt-1">
+                Bring in your history from MyFitnessPal, Cronometer or an earlier export
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-white hover:bg-indigo-600 rounded-lg p-2 transition-colors"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M6 18L18 6M6 6l12 12"
+                />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-auto p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-1">From another app</h3>
+          <p className="text-sm text-gray-600 mb-4">
+            Choose a MyFitnessPal nutrition export or a Cronometer servings export (CSV). You will
+            see what will be added before anything is saved. Meals you already have are skipped.
+          </p>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleChooseFile}
+              disabled={isWorking}
+              className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 disabled:opacity-50 transition-colors"
+            >
+              Choose File...
+            </button>
+            <span className="text-sm text-gray-500 truncate">{filePath || 'No file chosen'}</span>
+          </div>
+
+          {isWorking && filePath && !preview && (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-indigo-500"></div>
+            </div>
+          )}
+
+          {preview && (
+            <div className="mt-6 space-y-4">
+              <div className="p-4 bg-indigo-50 rounded-lg text-sm text-indigo-900">
+                <p className="font-medium">{SOURCE_NAMES[preview.source]} export</p>
+                <p className="mt-1">
+                  {preview.meals} new meals across {daysWithMeals.length} days
+                  {preview.duplicates > 0 && `, ${preview.duplicates} already logged and skipped`}
+                </p>
+              </div>
+
+              {preview.skipped.length > 0 && (
+                <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                  <p className="font-medium">{preview.skipped.length} rows will be skipped</p>
+                  <ul className="mt-1 text-xs space-y-0.5">
+                    {preview.skipped.slice(0, 5).map(({ row, reason }) => (
+                      <li key={row}>Row {row}: {reason}</li>
+                    ))}
+                    {preview.skipped.length > 5 && <li>...and {preview.skipped.length - 5} more</li>}
+                  </ul>
+                </div>
+              )}
+
+              {preview.days.length > 0 && (
+                <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-64 overflow-auto">
+                  {preview.days.map(day => (
+                    <div key={day.date} className="flex items-center justify-between px-4 py-2 text-sm">
+                      <span className="text-gray-900">
+                        {format(parseISO(day.date), 'EEE, MMM d, yyyy')}
+                        {day.isNewDay && <span className="ml-2 text-xs text-indigo-600">new day</span>}
+                      </span>
+                      <span className="text-gray-500">
+                        {day.meals > 0 ? `${day.meals} meals, ${Math.round(day.calories)} cal` : 'nothing new'}
+                        {day.duplicates > 0 && ` · ${day.duplicates} duplicate`}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* The app's own exports */}
+          <div className="border-t border-gray-200 mt-8 pt-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-1">From a Calorie Tracker export</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              JSON exports bring back everything. CSV exports only hold daily totals, which come
+              back as one meal per day.
+            </p>
+            <p className="text-sm font-medium text-gray-700 mb-2">Days you already have:</p>
+            <div className="space-y-2 mb-4">
+              {POLICY_OPTIONS.map(option => (
+                <label key={option.value} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    checked={policy === option.value}
+                    onChange={() => setPolicy(option.value)}
+                  />
+                  <span>
+                    <span className="font-medium">{option.label}</span> — {option.description}
+                  </span>
+                </label>
+              ))}
+            </div>
+            <button
+              onClick={handleImportExport}
+              disabled={isWorking}
+              className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 disabled:opacity-50 transition-colors"
+            >
+              Choose Export File...
+            </button>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="border-t border-gray-200 p-6 bg-gray-50 flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-3 bg-white border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={isWorking || !preview || preview.meals === 0}
+            className="flex-1 px-4 py-3 bg-indigo-500 text-white rounded-lg font-medium hover:bg-indigo-600 disabled:opacity-50 transition-colors"
+          >
+            {isWorking && preview ? 'Importing...' : 'Import'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default FoodLogImportView;
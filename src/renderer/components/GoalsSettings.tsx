@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { AppData, UserGoals } from '../types';
+import { MICRONUTRIENTS } from '../../shared/nutrients';
 
 interface GoalsSettingsProps {
   appData: AppData;
@@ -303,6 +304,39 @@ function GoalsSettings({ appData, onClose, onDataUpdated }: GoalsSettingsProps)
               </div>
             </div>
 
+            {/* Micronutrient Goals */}
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 mb-1">Micronutrients (optional)</h3>
+              <p className="text-sm text-gray-600 mb-4">
+                Leave a field empty to not track it. Set ones get a progress bar on the dashboard.
+              </p>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                {MICRONUTRIENTS.map(({ key, label, unit, target }) => (
+                  <div key={key} className="bg-white border border-gray-200 rounded-lg p-4">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      {label} {target === 'goal' ? 'goal' : 'limit'}
+                    </label>
+                    <div className="flex items-baseline gap-2">
+                      <input
+                        type="number"
+                        value={goals[key] ?? ''}
+                        onChange={(e) => setGoals({
+                          ...goals,
+                          [key]: e.target.value === '' ? undefined : Number(e.target.value),
+                        })}
+                        className="flex-1 min-w-0 px-3 py-2 text-lg font-bold text-center border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                        min="0"
+                      />
+                      <span className="text-gray-600 font-medium">{unit}</span>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-2">
+                      {target === 'goal' ? 'At least this much per day' : 'At most this much per day'}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </div>
+
             {/* Other Goals */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               {/* Target Weight */}
@@ -313,8 +347,11 @@ function GoalsSettings({ appData, onClose, onDataUpdated }: GoalsSettingsProps)
                 <div className="flex items-baseline gap-2">
                   <input
                     type="number"
-                    value={goals.targetWeight}
-                    onChange={(e) => setGoals({ ...goals, targetWeight: Number(e.target.value) })}
+                    value={goals.targetWeight ?? ''}
+                    onChange={(e) => setGoals({
+                      ...goals,
+                      targetWeight: e.target.value === '' ? undefined : Number(e.target.value),
+                    })}
                     className="flex-1 px-3 py-2 text-xl font-bold text-center border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
                     min="0"
                     step="0.5"
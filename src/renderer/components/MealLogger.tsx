@@ -1,8 +1,14 @@
 import React, { useState } from 'react';
-import { MealEntry, FoodItem, SavedFood, AppData } from '../types';
+import { MealEntry, FoodItem, SavedFood, Recipe, AppData } from '../types';
 import { getCurrentTimeString } from '../utils/dateUtils';
 import { calculateFoodTotals } from '../utils/calculations';
+import { recordUse } from '../utils/useCounts';
+import { servingText, formatPortion, scaledFood, withGrams } from '../../shared/servings';
+import { pickMicronutrients } from '../../shared/nutrients';
+import { recipeServing } from '../../shared/recipes';
 import { useToast } from './Toast';
+import ServingInput from './ServingInput';
+import MicronutrientInputs from './MicronutrientInputs';
 
 interface MealLoggerProps {
   appData: AppData;
@@ -21,6 +27,8 @@ function MealLogger({ appData, onMealAdded, onClose, existingMeal }: MealLoggerP
   const [showAddFood, setShowAddFood] = useState(false);
   const [showSavedFoods, setShowSavedFoods] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [weighingFood, setWeighingFood] = useState<SavedFood | null>(null);
+  const [weight, setWeight] = useState('');
   const { showToast } = useToast();
   const isEditing = !!existingMeal;
 
@@ -31,7 +39,6 @@ function MealLogger({ appData, onMealAdded, onClose, existingMeal }: MealLoggerP
     protein: 0,
     carbs: 0,
     fats: 0,
-    servingSize: '',
   });
 
   const handleAddCustomFood = () => {
@@ -43,35 +50,56 @@ function MealLogger({ appData, onMealAdded, onClose, existingMeal }: MealLoggerP
         protein: 0,
         carbs: 0,
         fats: 0,
-        servingSize: '',
       });
       setShowAddFood(false);
     }
   };
 
-  const handleAddSavedFood = async (savedFood: SavedFood) => {
+  // Foods stored per 100 g are added once their weight is entered
+  const handleSelectSavedFood = (savedFood: SavedFood) => {
+    if (savedFood.per100g) {
+      setWeighingFood(savedFood);
+      setWeight('');
+    } else {
+      handleAddSavedFood(savedFood);
+    }
+  };
+
+  const handleAddSavedFood = async (savedFood: SavedFood, grams?: number) => {
     const food: FoodItem = {
       name: savedFood.name,
       calories: savedFood.calories,
       protein: savedFood.protein,
       carbs: savedFood.carbs,
       fats: savedFood.fats,
-      servingSize: savedFood.servingSize,
+      serving: savedFood.serving,
+      servingLabel: savedFood.servingLabel,
+      ...pickMicronutrients(savedFood),
     };
-    setFoods([...foods, food]);
+    setFoods([...foods, grams !== undefined ? withGrams(food, grams) : food]);
     setShowSavedFoods(false);
+    setWeighingFood(null);
     setSearchQuery('');
 
     // Increment useCount for the saved food
-    const updatedFood: SavedFood = {
-      ...savedFood,
-      useCount: savedFood.useCount + 1,
-    };
-    const updatedSavedFoods = appData.savedFoods.map((f) =>
-      f.name === savedFood.name ? updatedFood : f
-    );
-    const updatedAppData = { ...appData, savedFoods: updatedSavedFoods };
-    await window.electronAPI.saveAppData(updatedAppData);
+    await recordUse('savedFoods', savedFood.id);
+  };
+
+  // One serving is stored without a quantity
+  const handleQuantityChange = (index: number, quantity: number) => {
+    if (!(quantity > 0)) return;
+    setFoods(foods.map((food, i) =>
+      i === index ? { ...food, quantity: quantity === 1 ? undefined : quantity } : food
+    ));
+  };
+
+  // A recipe is logged as one food: a serving made from its ingredients' current values
+  const handleAddRecipe = async (recipe: Recipe) => {
+    setFoods([...foods, recipeServing(recipe, appData.savedFoods)]);
+    setShowSavedFoods(false);
+    setSearchQuery('');
+
+    await recordUse('recipes', recipe.id);
   };
 
   const handleRemoveFood = (index: number) => {
@@ -100,9 +128,14 @@ function MealLogger({ appData, onMealAdded, onClose, existingMeal }: MealLoggerP
     return calculateFoodTotals(foods);
   };
 
+  const weighed = weighingFood && Number(weight) > 0 ? withGrams(weighingFood, Number(weight)) : null;
+
   const filteredSavedFoods = appData.savedFoods.filter((food) =>
     food.name.toLowerCase().includes(searchQuery.toLowerCase())
   );
+  const filteredRecipes = appData.recipes.filter((recipe) =>
+    recipe.name.toLowerCase().includes(searchQuery.toLowerCase())
+  );
 
   const totals = calculateTotals();
 
@@ -171,13 +204,26 @@ function MealLogger({ appData, onMealAdded, onClose, existingMeal }: MealLoggerP
                     <div className="flex-1">
                       <div className="font-medium text-gray-900">{food.name}</div>
                       <div className="text-sm text-gray-600 mt-1">
-                        {food.servingSize && <span className="mr-3">{food.servingSize}</span>}
-                        <span className="mr-3">{food.calories} cal</span>
-                        <span className="mr-3">P: {food.protein}g</span>
-                        <span className="mr-3">C: {food.carbs}g</span>
-                        <span>F: {food.fats}g</span>
+                        {formatPortion(food) && <span className="mr-3">{formatPortion(food)}</span>}
+                        <span className="mr-3">{Math.round(scaledFood(food).calories)} cal</span>
+                        <span className="mr-3">P: {Math.round(scaledFood(food).protein)}g</span>
+                        <span className="mr-3">C: {Math.round(scaledFood(food).carbs)}g</span>
+                        <span>F: {Math.round(scaledFood(food).fats)}g</span>
                       </div>
                     </div>
+                    {food.grams === undefined && (
+                      <label className="ml-4 flex items-center gap-2 text-sm text-gray-600">
+                        Servings
+                        <input
+                          type="number"
+                          min="0.25"
+                          step="0.25"
+                          value={food.quantity ?? 1}
+                          onChange={(e) => handleQuantityChange(index, Number(e.target.value))}
+                          className="w-20 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                        />
+                      </label>
+                    )}
                     <button
                       onClick={() => handleRemoveFood(index)}
                       className="ml-4 text-red-500 hover:text-red-700 transition-colors"
@@ -297,13 +343,12 @@ function MealLogger({ appData, onMealAdded, onClose, existingMeal }: MealLoggerP
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Serving Size (optional)
                 </label>
-                <input
-                  type="text"
-                  value={newFood.servingSize || ''}
-                  onChange={(e) => setNewFood({ ...newFood, servingSize: e.target.value })}
-                  placeholder="e.g., 6 oz, 1 cup"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                <ServingInput
+                  serving={newFood.serving}
+                  onChange={(serving) => setNewFood({ ...newFood, serving })}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
                 />
+                <p className="text-xs text-gray-500 mt-1">Calories and macros below are for one serving.</p>
               </div>
 
               <div className="grid grid-cols-2 gap-4">
@@ -364,6 +409,12 @@ function MealLogger({ appData, onMealAdded, onClose, existingMeal }: MealLoggerP
                 </div>
               </div>
 
+              <MicronutrientInputs
+                values={newFood}
+                onChange={(values) => setNewFood({ ...newFood, ...values })}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+              />
+
               <button
                 onClick={handleAddCustomFood}
                 className="w-full bg-orange-500 hover:bg-orange-600 text-white py-2 px-4 rounded-lg font-medium transition-colors"
@@ -381,6 +432,7 @@ function MealLogger({ appData, onMealAdded, onClose, existingMeal }: MealLoggerP
                 <button
                   onClick={() => {
                     setShowSavedFoods(false);
+                    setWeighingFood(null);
                     setSearchQuery('');
                   }}
                   className="text-gray-500 hover:text-gray-700"
@@ -396,38 +448,114 @@ function MealLogger({ appData, onMealAdded, onClose, existingMeal }: MealLoggerP
                 </button>
               </div>
 
-              <input
-                type="text"
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                placeholder="Search foods..."
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg mb-3 focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-              />
-
-              <div className="max-h-64 overflow-y-auto space-y-2">
-                {filteredSavedFoods.length > 0 ? (
-                  filteredSavedFoods.map((food) => (
+              {weighingFood ? (
+                <div className="space-y-3">
+                  <div>
+                    <div className="font-medium text-gray-900">{weighingFood.name}</div>
+                    <div className="text-sm text-gray-600 mt-1">
+                      Per 100 g: {weighingFood.calories} cal, P: {weighingFood.protein}g, C: {weighingFood.carbs}g, F: {weighingFood.fats}g
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Weight (g)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={weight}
+                      onChange={(e) => setWeight(e.target.value)}
+                      placeholder="e.g., 150"
+                      autoFocus
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                    />
+                  </div>
+                  {weighed && (
+                    <div className="text-sm text-gray-600">
+                      <span className="mr-3">{Math.round(weighed.calories)} cal</span>
+                      <span className="mr-3">P: {Math.round(weighed.protein)}g</span>
+                      <span className="mr-3">C: {Math.round(weighed.carbs)}g</span>
+                      <span>F: {Math.round(weighed.fats)}g</span>
+                    </div>
+                  )}
+                  <div className="flex gap-2">
                     <button
-                      key={food.id}
-                      onClick={() => handleAddSavedFood(food)}
-                      className="w-full text-left bg-gray-50 hover:bg-gray-100 rounded-lg p-3 transition-colors"
+                      onClick={() => setWeighingFood(null)}
+                      className="flex-1 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
                     >
-                      <div className="font-medium text-gray-900">{food.name}</div>
-                      <div className="text-sm text-gray-600 mt-1">
-                        {food.servingSize && <span className="mr-3">{food.servingSize}</span>}
-                        <span className="mr-3">{food.calories} cal</span>
-                        <span className="mr-3">P: {food.protein}g</span>
-                        <span className="mr-3">C: {food.carbs}g</span>
-                        <span>F: {food.fats}g</span>
-                      </div>
+                      Back
+                    </button>
+                    <button
+                      onClick={() => handleAddSavedFood(weighingFood, Number(weight))}
+                      disabled={!(Number(weight) > 0)}
+                      className="flex-1 px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 disabled:opacity-50 transition-colors"
+                    >
+                      Add Food
                     </button>
-                  ))
-                ) : (
-                  <div className="text-center py-8 text-gray-500">
-                    {searchQuery ? 'No foods found' : 'No saved foods yet'}
                   </div>
-                )}
-              </div>
+                </div>
+              ) : (
+                <>
+                  <input
+                    type="text"
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    placeholder="Search foods..."
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg mb-3 focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                  />
+
+                  <div className="max-h-64 overflow-y-auto space-y-2">
+                    {filteredRecipes.map((recipe) => {
+                      const perServing = recipeServing(recipe, appData.savedFoods);
+                      return (
+                        <button
+                          key={recipe.id}
+                          onClick={() => handleAddRecipe(recipe)}
+                          className="w-full text-left bg-gray-50 hover:bg-gray-100 rounded-lg p-3 transition-colors"
+                        >
+                          <div className="font-medium text-gray-900">
+                            {recipe.name}
+                            <span className="ml-2 px-2 py-0.5 bg-orange-100 text-orange-700 text-xs rounded-full">
+                              Recipe
+                            </span>
+                          </div>
+                          <div className="text-sm text-gray-600 mt-1">
+                            <span className="mr-3">per serving</span>
+                            <span className="mr-3">{Math.round(perServing.calories)} cal</span>
+                            <span className="mr-3">P: {Math.round(perServing.protein)}g</span>
+                            <span className="mr-3">C: {Math.round(perServing.carbs)}g</span>
+                            <span>F: {Math.round(perServing.fats)}g</span>
+                          </div>
+                        </button>
+                      );
+                    })}
+                    {filteredSavedFoods.length > 0 ? (
+                      filteredSavedFoods.map((food) => (
+                        <button
+                          key={food.id}
+                          onClick={() => handleSelectSavedFood(food)}
+                          className="w-full text-left bg-gray-50 hover:bg-gray-100 rounded-lg p-3 transition-colors"
+                        >
+                          <div className="font-medium text-gray-900">{food.name}</div>
+                          <div className="text-sm text-gray-600 mt-1">
+                            {food.per100g && <span className="mr-3">per 100 g</span>}
+                            {servingText(food) && <span className="mr-3">{servingText(food)}</span>}
+                            <span className="mr-3">{food.calories} cal</span>
+                            <span className="mr-3">P: {food.protein}g</span>
+                            <span className="mr-3">C: {food.carbs}g</span>
+                            <span>F: {food.fats}g</span>
+                          </div>
+                        </button>
+                      ))
+                    ) : (
+                      filteredRecipes.length === 0 && (
+                        <div className="text-center py-8 text-gray-500">
+                          {searchQuery ? 'No foods found' : 'No saved foods yet'}
+                        </div>
+                      )
+                    )}
+                  </div>
+                </>
+              )}
             </div>
           )}
 
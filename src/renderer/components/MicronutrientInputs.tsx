@@ -0,0 +1,55 @@
+import { useState } from 'react';
+import { MICRONUTRIENTS, Micronutrients, Micronutrient } from '../../shared/nutrients';
+
+interface MicronutrientInputsProps {
+  values: Micronutrients;
+  onChange: (values: Micronutrients) => void;
+  className: string;
+}
+
+// Optional fiber, sugar, sodium, saturated fat and cholesterol fields, folded
+// away unless the food already has one of them
+function MicronutrientInputs({ values, onChange, className }: MicronutrientInputsProps) {
+  const [isOpen, setIsOpen] = useState(() =>
+    MICRONUTRIENTS.some(({ key }) => values[key] !== undefined)
+  );
+
+  const handleChange = (key: Micronutrient, value: string) => {
+    onChange({ ...values, [key]: value === '' ? undefined : Number(value) });
+  };
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-sm font-medium text-orange-600 hover:text-orange-700 transition-colors"
+      >
+        {isOpen ? 'Hide micronutrients' : 'Add fiber, sugar, sodium and more (optional)'}
+      </button>
+
+      {isOpen && (
+        <div className="grid grid-cols-2 gap-4 mt-3">
+          {MICRONUTRIENTS.map(({ key, label, unit }) => (
+            <div key={key}>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {label} ({unit})
+              </label>
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={values[key] ?? ''}
+                onChange={(e) => handleChange(key, e.target.value)}
+                placeholder="Not tracked"
+                className={`w-full ${className}`}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default MicronutrientInputs;
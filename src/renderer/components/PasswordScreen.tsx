@@ -1,25 +1,87 @@
 import React, { useState, useEffect } from 'react';
+import { Profile } from '../types';
 
 interface PasswordScreenProps {
   onAuthenticated: (dataPath: string) => void;
+  // Called after another profile was picked, so a remembered password can be used
+  onProfileSwitched?: () => void;
+  // When set, the session was locked: only the password for this folder is asked for
+  lockedDataPath?: string | null;
 }
 
-function PasswordScreen({ onAuthenticated }: PasswordScreenProps) {
-  const [dataPath, setDataPath] = useState<string | null>(null);
+function PasswordScreen({ onAuthenticated, onProfileSwitched, lockedDataPath }: PasswordScreenProps) {
+  const [dataPath, setDataPath] = useState<string | null>(lockedDataPath || null);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const [isCreatingProfile, setIsCreatingProfile] = useState(false);
+  const [newProfileName, setNewProfileName] = useState('');
+  const [profileError, setProfileError] = useState('');
   const [password, setPassword] = useState('');
   const [rememberMe, setRememberMe] = useState(true);
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const isUnlock = !!lockedDataPath;
 
   useEffect(() => {
-    checkExistingDataPath();
+    if (!isUnlock) {
+      checkExistingDataPath();
+      loadProfiles();
+    }
   }, []);
 
-  const checkExistingDataPath = async () => {
-    const existingPath = await window.electronAPI.getDataPath();
-    if (existingPath) {
-      setDataPath(existingPath);
+  const loadProfiles = async () => {
+    const result = await window.electronAPI.getProfiles();
+    setProfiles(result.profiles);
+    setActiveProfileId(result.activeProfileId);
+  };
+
+  const switchToProfile = async (id: string) => {
+    const result = await window.electronAPI.switchProfile(id);
+    if (!result.success || !result.profile) {
+      setProfileError(result.error || 'Failed to switch profile');
+      return;
+    }
+
+    setActiveProfileId(result.profile.id);
+    setDataPath(result.profile.dataPath);
+    setPassword('');
+    setError('');
+    setProfileError('');
+    onProfileSwitched?.();
+  };
+
+  const handleCreateProfile = async () => {
+    const result = await window.electronAPI.createProfile(newProfileName);
+    if (!result.success || !result.profile) {
+      setProfileError(result.error || 'Failed to create profile');
+      return;
+    }
+
+    setIsCreatingProfile(false);
+    setNewProfileName('');
+    setProfileError('');
+    await loadProfiles();
+    await switchToProfile(result.profile.id);
+  };
+
+  const handleRemoveProfile = async () => {
+    const profile = profiles.find(p => p.id === activeProfileId);
+    if (!profile || !confirm(`Remove the profile "${profile.name}"? Its data folder will not be deleted.`)) {
+      return;
     }
+
+    const result = await window.electronAPI.deleteProfile(profile.id);
+    if (!result.success) {
+      setProfileError(result.error || 'Failed to remove profile');
+      return;
+    }
+
+    await loadProfiles();
+    await checkExistingDataPath();
+  };
+
+  const checkExistingDataPath = async () => {
+    setDataPath(await window.electronAPI.getDataPath());
   };
 
   const handleSelectFolder = async () => {
@@ -50,7 +112,14 @@ function PasswordScreen({ onAuthenticated }: PasswordScreenProps) {
       const isValid = await window.electronAPI.verifyPassword(password);
 
       if (isValid) {
-        await window.electronAPI.setPassword(password, rememberMe);
+        const remember = rememberMe && !isUnlock;
+        const result = await window.electronAPI.setPassword(password, remember);
+        if (remember && !result.remembered) {
+          alert(
+            'Your password could not be remembered: this computer has no secure storage (such as a ' +
+              'keyring) for it. You will need to enter it the next time you open the app.'
+          );
+        }
         onAuthenticated(dataPath);
       } else {
         setError('Incorrect password. Please try again.');
@@ -89,14 +158,93 @@ function PasswordScreen({ onAuthenticated }: PasswordScreenProps) {
             </svg>
           </div>
           <h1 className="text-3xl font-bold text-gray-900 mb-2">
-            Daily Calorie Tracker
+            {isUnlock ? 'Session Locked' : 'Daily Calorie Tracker'}
           </h1>
           <p className="text-gray-600">
-            Track your nutrition and reach your goals
+            {isUnlock
+              ? 'Enter your password to continue where you left off'
+              : 'Track your nutrition and reach your goals'}
           </p>
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-6">
+          {/* Profile Selection */}
+          {!isUnlock && profiles.length > 0 && (
+            <div>
+              <label htmlFor="profile" className="block text-sm font-medium text-gray-700 mb-2">
+                Profile
+              </label>
+              {isCreatingProfile ? (
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={newProfileName}
+                    onChange={(e) => setNewProfileName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault();
+                        handleCreateProfile();
+                      }
+                    }}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                    placeholder="Profile name"
+                    autoFocus
+                  />
+                  <button
+                    type="button"
+                    onClick={handleCreateProfile}
+                    disabled={!newProfileName.trim()}
+                    className="px-4 py-2 text-sm bg-orange-500 hover:bg-orange-600 disabled:bg-gray-300 text-white rounded-lg transition-colors"
+                  >
+                    Create
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setIsCreatingProfile(false);
+                      setNewProfileName('');
+                    }}
+                    className="px-4 py-2 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <select
+                    id="profile"
+                    value={activeProfileId || ''}
+                    onChange={(e) => switchToProfile(e.target.value)}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                  >
+                    {profiles.map(profile => (
+                      <option key={profile.id} value={profile.id}>
+                        {profile.name}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => setIsCreatingProfile(true)}
+                    className="px-4 py-2 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+                  >
+                    New
+                  </button>
+                  {profiles.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={handleRemoveProfile}
+                      className="px-4 py-2 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+              )}
+              {profileError && <p className="mt-2 text-sm text-red-600">{profileError}</p>}
+            </div>
+          )}
+
           {/* Data Folder Selection */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -107,13 +255,15 @@ function PasswordScreen({ onAuthenticated }: PasswordScreenProps) {
                 <div className="flex-1 px-3 py-2 bg-gray-50 border border-gray-300 rounded-lg text-sm text-gray-700 truncate">
                   {dataPath}
                 </div>
-                <button
-                  type="button"
-                  onClick={handleSelectFolder}
-                  className="px-4 py-2 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
-                >
-                  Change
-                </button>
+                {!isUnlock && (
+                  <button
+                    type="button"
+                    onClick={handleSelectFolder}
+                    className="px-4 py-2 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+                  >
+                    Change
+                  </button>
+                )}
               </div>
             ) : (
               <button
@@ -148,27 +298,31 @@ function PasswordScreen({ onAuthenticated }: PasswordScreenProps) {
                   placeholder="Enter your password"
                   autoFocus
                 />
-                <p className="mt-2 text-xs text-gray-500">
-                  First time? Create a new password. Returning? Enter your existing password.
-                </p>
+                {!isUnlock && (
+                  <p className="mt-2 text-xs text-gray-500">
+                    First time? Create a new password. Returning? Enter your existing password.
+                  </p>
+                )}
               </div>
 
               {/* Remember Me Checkbox */}
-              <div className="flex items-center">
-                <input
-                  id="rememberMe"
-                  type="checkbox"
-                  checked={rememberMe}
-                  onChange={(e) => setRememberMe(e.target.checked)}
-                  className="w-4 h-4 text-orange-500 bg-gray-100 border-gray-300 rounded focus:ring-orange-500 focus:ring-2"
-                />
-                <label
-                  htmlFor="rememberMe"
-                  className="ml-2 text-sm text-gray-700 cursor-pointer"
-                >
-                  Remember me (save password securely)
-                </label>
-              </div>
+              {!isUnlock && (
+                <div className="flex items-center">
+                  <input
+                    id="rememberMe"
+                    type="checkbox"
+                    checked={rememberMe}
+                    onChange={(e) => setRememberMe(e.target.checked)}
+                    className="w-4 h-4 text-orange-500 bg-gray-100 border-gray-300 rounded focus:ring-orange-500 focus:ring-2"
+                  />
+                  <label
+                    htmlFor="rememberMe"
+                    className="ml-2 text-sm text-gray-700 cursor-pointer"
+                  >
+                    Remember me (save password securely)
+                  </label>
+                </div>
+              )}
 
               {/* Error Message */}
               {error && (
@@ -207,6 +361,8 @@ function PasswordScreen({ onAuthenticated }: PasswordScreenProps) {
                     </svg>
                     Verifying...
                   </span>
+                ) : isUnlock ? (
+                  'Unlock'
                 ) : (
                   'Continue'
                 )}
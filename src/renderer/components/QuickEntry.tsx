@@ -1,7 +1,11 @@
 import React, { useState } from 'react';
-import { MealEntry, SavedFood, AppData, FoodItem } from '../types';
+import { MealEntry, SavedFood, Recipe, AppData, FoodItem } from '../types';
 import { getCurrentTimeString } from '../utils/dateUtils';
 import { calculateFoodTotals } from '../utils/calculations';
+import { recordUse } from '../utils/useCounts';
+import { withGrams } from '../../shared/servings';
+import { pickMicronutrients } from '../../shared/nutrients';
+import { recipeServing } from '../../shared/recipes';
 import { useToast } from './Toast';
 
 interface QuickEntryProps {
@@ -44,15 +48,43 @@ function QuickEntry({ appData, onMealAdded, onClose }: QuickEntryProps) {
       )
     : frequentFoods;
 
+  const filteredRecipes = [...appData.recipes]
+    .filter(recipe => recipe.name.toLowerCase().includes(searchQuery.toLowerCase()))
+    .sort((a, b) => b.useCount - a.useCount);
+
+  const servingItem = (food: SavedFood): FoodItem => ({
+    name: food.name,
+    calories: food.calories,
+    protein: food.protein,
+    carbs: food.carbs,
+    fats: food.fats,
+    serving: food.serving,
+    servingLabel: food.servingLabel,
+    ...pickMicronutrients(food),
+  });
+
+  // One serving is stored without a quantity
+  const handleQuantityChange = (index: number, quantity: number) => {
+    if (!(quantity > 0)) return;
+    setSelectedFoods(selectedFoods.map((food, i) =>
+      i === index ? { ...food, quantity: quantity === 1 ? undefined : quantity } : food
+    ));
+  };
+
+  // Always scaled from the saved food's per 100 g values: scaling the already
+  // rounded item again would add up the rounding with every change
+  const handleGramsChange = (index: number, grams: number) => {
+    if (!(grams > 0)) return;
+    setSelectedFoods(selectedFoods.map((food, i) => {
+      if (i !== index) return food;
+      const savedFood = appData.savedFoods.find(f => f.name === food.name && f.per100g);
+      return withGrams(savedFood ? servingItem(savedFood) : food, grams);
+    }));
+  };
+
   const handleToggleFood = async (food: SavedFood) => {
-    const foodItem: FoodItem = {
-      name: food.name,
-      calories: food.calories,
-      protein: food.protein,
-      carbs: food.carbs,
-      fats: food.fats,
-      servingSize: food.servingSize,
-    };
+    // Foods stored per 100 g start at 100 g
+    const foodItem = food.per100g ? withGrams(servingItem(food), 100) : servingItem(food);
 
     const isSelected = selectedFoods.some(f => f.name === food.name);
 
@@ -62,15 +94,20 @@ function QuickEntry({ appData, onMealAdded, onClose }: QuickEntryProps) {
       setSelectedFoods([...selectedFoods, foodItem]);
 
       // Increment useCount for the saved food
-      const updatedFood: SavedFood = {
-        ...food,
-        useCount: food.useCount + 1,
-      };
-      const updatedSavedFoods = appData.savedFoods.map((f) =>
-        f.name === food.name ? updatedFood : f
-      );
-      const updatedAppData = { ...appData, savedFoods: updatedSavedFoods };
-      await window.electronAPI.saveAppData(updatedAppData);
+      await recordUse('savedFoods', food.id);
+    }
+  };
+
+  // A recipe is added as one food: a serving made from its ingredients' current values
+  const handleToggleRecipe = async (recipe: Recipe) => {
+    const isSelected = selectedFoods.some(f => f.name === recipe.name);
+
+    if (isSelected) {
+      setSelectedFoods(selectedFoods.filter(f => f.name !== recipe.name));
+    } else {
+      setSelectedFoods([...selectedFoods, recipeServing(recipe, appData.savedFoods)]);
+
+      await recordUse('recipes', recipe.id);
     }
   };
 
@@ -184,6 +221,27 @@ function QuickEntry({ appData, onMealAdded, onClose }: QuickEntryProps) {
                       className="inline-flex items-center gap-2 bg-white px-3 py-1 rounded-full text-sm"
                     >
                       <span className="font-medium text-gray-900">{food.name}</span>
+                      {food.grams !== undefined ? (
+                        <input
+                          type="number"
+                          min="1"
+                          step="1"
+                          value={food.grams}
+                          onChange={(e) => handleGramsChange(idx, Number(e.target.value))}
+                          title="Grams"
+                          className="w-16 px-1 border border-gray-300 rounded text-center"
+                        />
+                      ) : (
+                        <input
+                          type="number"
+                          min="0.25"
+                          step="0.25"
+                          value={food.quantity ?? 1}
+                          onChange={(e) => handleQuantityChange(idx, Number(e.target.value))}
+                          title="Servings"
+                          className="w-14 px-1 border border-gray-300 rounded text-center"
+                        />
+                      )}
                       <button
                         onClick={() => setSelectedFoods(selectedFoods.filter((_, i) => i !== idx))}
                         className="text-gray-500 hover:text-red-600"
@@ -214,6 +272,31 @@ function QuickEntry({ appData, onMealAdded, onClose }: QuickEntryProps) {
               />
             </div>
 
+            {/* Recipes */}
+            {filteredRecipes.length > 0 && (
+              <div>
+                <h3 className="font-semibold text-gray-900 mb-3">Recipes</h3>
+                <div className="flex flex-wrap gap-2">
+                  {filteredRecipes.map((recipe) => {
+                    const isSelected = selectedFoods.some(f => f.name === recipe.name);
+                    return (
+                      <button
+                        key={recipe.id}
+                        onClick={() => handleToggleRecipe(recipe)}
+                        className={`px-3 py-2 rounded-lg border text-sm transition-colors ${
+                          isSelected
+                            ? 'border-green-500 bg-green-50 text-green-900'
+                            : 'border-gray-200 bg-white text-gray-700 hover:border-gray-300'
+                        }`}
+                      >
+                        {recipe.name} ({Math.round(recipeServing(recipe, appData.savedFoods).calories)} cal per serving)
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
             {/* Food Grid */}
             <div>
               <h3 className="font-semibold text-gray-900 mb-3">
@@ -246,7 +329,7 @@ function QuickEntry({ appData, onMealAdded, onClose }: QuickEntryProps) {
                               {food.name}
                             </div>
                             <div className="text-sm text-gray-600 mt-1">
-                              {food.calories} cal
+                              {food.calories} cal{food.per100g && ' per 100 g'}
                             </div>
                           </div>
                           {isSelected && (
@@ -301,7 +384,7 @@ function QuickEntry({ appData, onMealAdded, onClose }: QuickEntryProps) {
                             : 'border-gray-200 bg-white text-gray-700 hover:border-gray-300'
                         }`}
                       >
-                        {food.name} ({food.calories} cal)
+                        {food.name} ({food.calories} cal{food.per100g && ' per 100 g'})
                       </button>
                     );
                   })}
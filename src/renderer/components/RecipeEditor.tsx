@@ -0,0 +1,200 @@
+import { Recipe, RecipeIngredient, SavedFood } from '../types';
+import { ingredientFactor, recipeServing } from '../../shared/recipes';
+
+interface RecipeEditorProps {
+  recipe: Recipe;
+  savedFoods: SavedFood[];
+  onChange: (recipe: Recipe) => void;
+}
+
+const inputClassName =
+  'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent';
+
+// Foods stored per 100 g are measured in grams, others in servings
+const defaultIngredient = (food: SavedFood): RecipeIngredient =>
+  food.per100g ? { foodId: food.id, unit: 'g', quantity: 100 } : { foodId: food.id, unit: 'serving', quantity: 1 };
+
+function RecipeEditor({ recipe, savedFoods, onChange }: RecipeEditorProps) {
+  const foodsById = new Map(savedFoods.map((food) => [food.id, food]));
+  const availableFoods = savedFoods
+    .filter((food) => !recipe.ingredients.some((ingredient) => ingredient.foodId === food.id))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const perServing = recipeServing(recipe, savedFoods);
+
+  const handleAddIngredient = (foodId: string) => {
+    const food = foodsById.get(foodId);
+    if (!food) return;
+    onChange({
+      ...recipe,
+      ingredients: [...recipe.ingredients, defaultIngredient(food)],
+    });
+  };
+
+  const handleQuantityChange = (index: number, quantity: number) => {
+    if (!(quantity > 0)) return;
+    onChange({
+      ...recipe,
+      ingredients: recipe.ingredients.map((ingredient, i) =>
+        i === index ? { ...ingredient, quantity } : ingredient
+      ),
+    });
+  };
+
+  // For an amount that no longer fits the food, start again in the food's unit
+  const handleResetIngredient = (index: number, food: SavedFood) => {
+    onChange({
+      ...recipe,
+      ingredients: recipe.ingredients.map((ingredient, i) => (i === index ? defaultIngredient(food) : ingredient)),
+    });
+  };
+
+  const handleServingsChange = (servings: number) => {
+    if (servings > 0) {
+      onChange({ ...recipe, servings });
+    }
+  };
+
+  const handleRemoveIngredient = (index: number) => {
+    onChange({ ...recipe, ingredients: recipe.ingredients.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-3 gap-4">
+        <div className="col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-2">Recipe Name</label>
+          <input
+            type="text"
+            value={recipe.name}
+            onChange={(e) => onChange({ ...recipe, name: e.target.value })}
+            placeholder="e.g., Weekly Chili"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Makes (servings)</label>
+          <input
+            type="number"
+            min="1"
+            step="1"
+            value={recipe.servings}
+            onChange={(e) => handleServingsChange(Number(e.target.value))}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Ingredients</h3>
+        {recipe.ingredients.length > 0 ? (
+          <div className="space-y-2 mb-3">
+            {recipe.ingredients.map((ingredient, index) => {
+              const food = foodsById.get(ingredient.foodId);
+              const factor = food ? ingredientFactor(food, ingredient) : null;
+              return (
+                <div
+                  key={ingredient.foodId}
+                  className="bg-gray-50 rounded-lg p-3 flex items-center gap-3"
+                >
+                  <div className="flex-1 min-w-0">
+                    {food ? (
+                      <>
+                        <div className="font-medium text-gray-900 truncate">{food.name}</div>
+                        {factor !== null ? (
+                          <div className="text-sm text-gray-600">{Math.round(food.calories * factor)} cal</div>
+                        ) : (
+                          <div className="text-sm text-red-600">
+                            No longer measured in {ingredient.unit === 'g' ? 'grams' : 'servings'}.{' '}
+                            <button
+                              onClick={() => handleResetIngredient(index, food)}
+                              className="underline hover:text-red-700"
+                            >
+                              Set the amount in {food.per100g ? 'grams' : 'servings'}
+                            </button>
+                          </div>
+                        )}
+                      </>
+                    ) : (
+                      <div className="font-medium text-red-600">Deleted from the food library</div>
+                    )}
+                  </div>
+                  {food && factor !== null && (
+                    <label className="flex items-center gap-2 text-sm text-gray-600">
+                      <input
+                        type="number"
+                        min={ingredient.unit === 'g' ? '1' : '0.25'}
+                        step={ingredient.unit === 'g' ? '1' : '0.25'}
+                        value={ingredient.quantity}
+                        onChange={(e) => handleQuantityChange(index, Number(e.target.value))}
+                        className="w-20 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                      />
+                      {ingredient.unit === 'g' ? 'g' : 'servings'}
+                    </label>
+                  )}
+                  <button
+                    onClick={() => handleRemoveIngredient(index)}
+                    className="text-red-500 hover:text-red-700 transition-colors"
+                  >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                      />
+                    </svg>
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 mb-3">Add the saved foods that go into this recipe.</p>
+        )}
+
+        {availableFoods.length > 0 ? (
+          <select
+            value=""
+            onChange={(e) => handleAddIngredient(e.target.value)}
+            className={inputClassName}
+          >
+            <option value="">Add an ingredient...</option>
+            {availableFoods.map((food) => (
+              <option key={food.id} value={food.id}>
+                {food.name}
+              </option>
+            ))}
+          </select>
+        ) : (
+          savedFoods.length === 0 && (
+            <p className="text-sm text-gray-500">Save the ingredients as foods first.</p>
+          )
+        )}
+      </div>
+
+      <div className="bg-orange-50 border border-orange-200 rounded-lg p-4">
+        <p className="text-sm font-medium text-gray-700 mb-3">Per serving</p>
+        <div className="grid grid-cols-4 gap-4 text-center">
+          <div>
+            <div className="text-2xl font-bold text-orange-600">{Math.round(perServing.calories)}</div>
+            <div className="text-xs text-gray-600">Calories</div>
+          </div>
+          <div>
+            <div className="text-2xl font-bold text-gray-700">{Math.round(perServing.protein)}g</div>
+            <div className="text-xs text-gray-600">Protein</div>
+          </div>
+          <div>
+            <div className="text-2xl font-bold text-gray-700">{Math.round(perServing.carbs)}g</div>
+            <div className="text-xs text-gray-600">Carbs</div>
+          </div>
+          <div>
+            <div className="text-2xl font-bold text-gray-700">{Math.round(perServing.fats)}g</div>
+            <div className="text-xs text-gray-600">Fats</div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default RecipeEditor;
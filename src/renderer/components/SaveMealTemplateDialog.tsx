@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { AppData, MealEntry } from '../types';
+import { useToast } from './Toast';
+
+interface SaveMealTemplateDialogProps {
+  appData: AppData;
+  meal: MealEntry;
+  onSaved: () => void;
+  onClose: () => void;
+}
+
+function SaveMealTemplateDialog({ appData, meal, onSaved, onClose }: SaveMealTemplateDialogProps) {
+  const [name, setName] = useState(`Usual ${meal.mealType}`);
+  const [isSaving, setIsSaving] = useState(false);
+  const { showToast } = useToast();
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      showToast('warning', 'Please enter a name for the template');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const result = await window.electronAPI.saveAppData({
+        ...appData,
+        mealTemplates: [
+          ...appData.mealTemplates,
+          { id: `template-${Date.now()}`, name: name.trim(), meal },
+        ],
+      });
+      if (result.success) {
+        showToast('success', `Saved "${name.trim()}"`);
+        onSaved();
+        onClose();
+      } else {
+        showToast('error', result.error || 'Failed to save template');
+      }
+    } catch (error) {
+      console.error('Error saving meal template:', error);
+      showToast('error', 'An error occurred while saving the template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-orange-500 to-orange-600 text-white p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold">Save as Template</h2>
+              <p className="text-sm text-white/90 mt-1">
+                Log this meal again on any day with one click
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-white hover:bg-orange-600 rounded-lg p-2 transition-colors"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M6 18L18 6M6 6l12 12"
+                />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Template Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              autoFocus
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+            />
+          </div>
+          <p className="text-sm text-gray-600">
+            <span className="capitalize">{meal.mealType}</span> with {meal.foods.map((food) => food.name).join(', ')}
+            {meal.notes && ', including its notes'}.
+          </p>
+        </div>
+
+        {/* Footer */}
+        <div className="border-t border-gray-200 p-6 bg-gray-50 flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-3 bg-white border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="flex-1 px-4 py-3 bg-orange-500 text-white rounded-lg font-medium hover:bg-orange-600 disabled:opacity-50 transition-colors"
+          >
+            {isSaving ? 'Saving...' : 'Save Template'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default SaveMealTemplateDialog;
@@ -0,0 +1,206 @@
+import { useState, useEffect } from 'react';
+import { LockSettings } from '../types';
+import { useToast } from './Toast';
+
+interface SecuritySettingsProps {
+  onClose: () => void;
+  onChangePassword: () => void;
+}
+
+const IDLE_OPTIONS = [
+  { value: 0, label: 'Never' },
+  { value: 1, label: 'After 1 minute' },
+  { value: 5, label: 'After 5 minutes' },
+  { value: 15, label: 'After 15 minutes' },
+  { value: 30, label: 'After 30 minutes' },
+  { value: 60, label: 'After 1 hour' },
+];
+
+function SecuritySettings({ onClose, onChangePassword }: SecuritySettingsProps) {
+  const [lockSettings, setLockSettings] = useState<LockSettings>({
+    idleMinutes: 0,
+    lockOnMinimize: false,
+  });
+  const [isSaving, setIsSaving] = useState(false);
+  const [strictPrivacy, setStrictPrivacy] = useState(false);
+  const [isRewriting, setIsRewriting] = useState(false);
+  const { showToast } = useToast();
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      setLockSettings(await window.electronAPI.getLockSettings());
+      const appData = await window.electronAPI.getAppData();
+      setStrictPrivacy(!!appData?.privacy?.strictMetadata);
+    } catch (error) {
+      console.error('Error loading lock settings:', error);
+    }
+  };
+
+  // Applied right away because every daily file has to be rewritten
+  const handleStrictPrivacyChange = async (enabled: boolean) => {
+    setIsRewriting(true);
+    try {
+      const result = await window.electronAPI.setStrictPrivacy(enabled);
+      setStrictPrivacy(enabled);
+      if (result.success) {
+        showToast('success', `Strict privacy ${enabled ? 'enabled' : 'disabled'} (${result.rewritten} days updated)`);
+      } else {
+        showToast('error', result.error || 'Failed to update daily files');
+      }
+    } catch (error) {
+      console.error('Error changing privacy mode:', error);
+      showToast('error', 'An error occurred while updating daily files');
+    } finally {
+      setIsRewriting(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const result = await window.electronAPI.saveLockSettings(lockSettings);
+      if (result.success) {
+        showToast('success', 'Security settings saved');
+        onClose();
+      } else {
+        showToast('error', 'Failed to save security settings');
+      }
+    } catch (error) {
+      console.error('Error saving lock settings:', error);
+      showToast('error', 'An error occurred while saving settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-gray-700 to-gray-800 text-white p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold">Security</h2>
+              <p className="text-sm text-white/90 mt-1">Control how your data stays protected</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-white hover:bg-gray-700 rounded-lg p-2 transition-colors"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M6 18L18 6M6 6l12 12"
+                />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-auto p-6 space-y-6">
+          {/* Auto-Lock */}
+          <div>
+            <h3 className="font-semibold text-gray-900 mb-3">Auto-Lock</h3>
+            <div className="space-y-4">
+              <div>
+                <label htmlFor="idleMinutes" className="block text-sm font-medium text-gray-700 mb-2">
+                  Lock when idle
+                </label>
+                <select
+                  id="idleMinutes"
+                  value={lockSettings.idleMinutes}
+                  onChange={(e) => setLockSettings({ ...lockSettings, idleMinutes: Number(e.target.value) })}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                >
+                  {IDLE_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="flex items-center">
+                <input
+                  id="lockOnMinimize"
+                  type="checkbox"
+                  checked={lockSettings.lockOnMinimize}
+                  onChange={(e) => setLockSettings({ ...lockSettings, lockOnMinimize: e.target.checked })}
+                  className="w-4 h-4 text-orange-500 bg-gray-100 border-gray-300 rounded focus:ring-orange-500 focus:ring-2"
+                />
+                <label htmlFor="lockOnMinimize" className="ml-2 text-sm text-gray-700 cursor-pointer">
+                  Lock when the window is minimized
+                </label>
+              </div>
+
+              <p className="text-xs text-gray-500">
+                Locking removes your password and data from memory until it is entered again.
+              </p>
+            </div>
+          </div>
+
+          {/* Privacy */}
+          <div className="pt-6 border-t border-gray-200">
+            <h3 className="font-semibold text-gray-900 mb-3">Privacy</h3>
+            <div className="flex items-center">
+              <input
+                id="strictPrivacy"
+                type="checkbox"
+                checked={strictPrivacy}
+                disabled={isRewriting}
+                onChange={(e) => handleStrictPrivacyChange(e.target.checked)}
+                className="w-4 h-4 text-orange-500 bg-gray-100 border-gray-300 rounded focus:ring-orange-500 focus:ring-2"
+              />
+              <label htmlFor="strictPrivacy" className="ml-2 text-sm text-gray-700 cursor-pointer">
+                {isRewriting ? 'Updating daily files...' : 'Strict privacy'}
+              </label>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              Keeps calorie totals out of the readable header of each daily file, so only
+              the date is visible without your password.
+            </p>
+          </div>
+
+          {/* Password */}
+          <div className="pt-6 border-t border-gray-200">
+            <h3 className="font-semibold text-gray-900 mb-3">Password</h3>
+            <button
+              onClick={onChangePassword}
+              className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors"
+            >
+              Change Password
+            </button>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="border-t border-gray-200 p-6 bg-gray-50">
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="flex-1 px-4 py-3 bg-white border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="flex-1 px-4 py-3 bg-orange-500 hover:bg-orange-600 disabled:bg-gray-300 text-white rounded-lg font-medium transition-colors"
+            >
+              {isSaving ? 'Saving...' : 'Save Settings'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default SecuritySettings;
@@ -0,0 +1,53 @@
+import { useState } from 'react';
+import { Serving, ServingUnit } from '../types';
+import { SERVING_UNITS } from '../../shared/servings';
+
+interface ServingInputProps {
+  serving?: Serving;
+  onChange: (serving: Serving | undefined) => void;
+  className: string;
+}
+
+// Amount and unit of one serving; no amount means no serving size
+function ServingInput({ serving, onChange, className }: ServingInputProps) {
+  const [unit, setUnit] = useState<ServingUnit>(serving?.unit || 'g');
+
+  const handleAmountChange = (value: string) => {
+    const amount = Number(value);
+    onChange(value && amount > 0 ? { amount, unit } : undefined);
+  };
+
+  const handleUnitChange = (value: ServingUnit) => {
+    setUnit(value);
+    if (serving) {
+      onChange({ ...serving, unit: value });
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      <input
+        type="number"
+        min="0"
+        step="any"
+        value={serving?.amount ?? ''}
+        onChange={(e) => handleAmountChange(e.target.value)}
+        placeholder="e.g., 100"
+        className={`flex-1 min-w-0 ${className}`}
+      />
+      <select
+        value={unit}
+        onChange={(e) => handleUnitChange(e.target.value as ServingUnit)}
+        className={className}
+      >
+        {SERVING_UNITS.map(option => (
+          <option key={option} value={option}>
+            {option}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+export default ServingInput;
@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { DailyEntry, AppData } from '../types';
 import { format, subDays, subWeeks, subMonths, startOfWeek, endOfWeek, eachDayOfInterval } from 'date-fns';
+import { calculateDayTotals, averageDayTotals, macroCalories, exerciseSummary } from '../../shared/nutritionStats';
+import { useToast } from './Toast';
 import {
   LineChart,
   Line,
@@ -28,17 +30,25 @@ function StatsView({ appData, onClose }: StatsViewProps) {
   const [timeRange, setTimeRange] = useState<TimeRange>('7days');
   const [entries, setEntries] = useState<DailyEntry[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [isExportingReport, setIsExportingReport] = useState(false);
+  const { showToast } = useToast();
 
   useEffect(() => {
     loadEntries();
   }, [timeRange]);
 
+  const getDateRange = () => {
+    const daysBack = timeRange === '7days' ? 7 : timeRange === '30days' ? 30 : 90;
+    return {
+      startDate: format(subDays(new Date(), daysBack), 'yyyy-MM-dd'),
+      endDate: format(new Date(), 'yyyy-MM-dd'),
+    };
+  };
+
   const loadEntries = async () => {
     setIsLoading(true);
     try {
-      const daysBack = timeRange === '7days' ? 7 : timeRange === '30days' ? 30 : 90;
-      const startDate = format(subDays(new Date(), daysBack), 'yyyy-MM-dd');
-      const endDate = format(new Date(), 'yyyy-MM-dd');
+      const { startDate, endDate } = getDateRange();
       const data = await window.electronAPI.getDailyEntries(startDate, endDate);
       setEntries(data);
     } catch (error) {
@@ -48,19 +58,22 @@ function StatsView({ appData, onClose }: StatsViewProps) {
     }
   };
 
-  const calculateDayTotals = (entry: DailyEntry) => {
-    return entry.meals.reduce(
-      (totals, meal) => {
-        meal.foods.forEach(food => {
-          totals.calories += food.calories;
-          totals.protein += food.protein;
-          totals.carbs += food.carbs;
-          totals.fats += food.fats;
-        });
-        return totals;
-      },
-      { calories: 0, protein: 0, carbs: 0, fats: 0 }
-    );
+  const handleExportReport = async () => {
+    setIsExportingReport(true);
+    try {
+      const { startDate, endDate } = getDateRange();
+      const result = await window.electronAPI.exportReport(startDate, endDate);
+      if (result.success) {
+        showToast('success', 'Report saved');
+      } else if (!result.canceled) {
+        showToast('error', result.error || 'Failed to create report');
+      }
+    } catch (error) {
+      console.error('Error exporting report:', error);
+      showToast('error', 'An error occurred while creating the report');
+    } finally {
+      setIsExportingReport(false);
+    }
   };
 
   // Prepare calorie trend data
@@ -76,27 +89,18 @@ function StatsView({ appData, onClose }: StatsViewProps) {
     });
 
   // Calculate averages
-  const avgCalories = entries.length > 0
-    ? Math.round(entries.reduce((sum, entry) => sum + calculateDayTotals(entry).calories, 0) / entries.length)
-    : 0;
-
-  const avgProtein = entries.length > 0
-    ? Math.round(entries.reduce((sum, entry) => sum + calculateDayTotals(entry).protein, 0) / entries.length)
-    : 0;
-
-  const avgCarbs = entries.length > 0
-    ? Math.round(entries.reduce((sum, entry) => sum + calculateDayTotals(entry).carbs, 0) / entries.length)
-    : 0;
-
-  const avgFats = entries.length > 0
-    ? Math.round(entries.reduce((sum, entry) => sum + calculateDayTotals(entry).fats, 0) / entries.length)
-    : 0;
+  const averages = averageDayTotals(entries);
+  const avgCalories = averages.calories;
+  const avgProtein = averages.protein;
+  const avgCarbs = averages.carbs;
+  const avgFats = averages.fats;
 
   // Macro distribution pie data
+  const averageMacroCalories = macroCalories(averages);
   const macroData = [
-    { name: 'Protein', value: avgProtein * 4, color: '#3b82f6' },
-    { name: 'Carbs', value: avgCarbs * 4, color: '#10b981' },
-    { name: 'Fats', value: avgFats * 9, color: '#f59e0b' },
+    { name: 'Protein', value: averageMacroCalories.protein, color: '#3b82f6' },
+    { name: 'Carbs', value: averageMacroCalories.carbs, color: '#10b981' },
+    { name: 'Fats', value: averageMacroCalories.fats, color: '#f59e0b' },
   ];
 
   // Weekly comparison data
@@ -131,8 +135,9 @@ function StatsView({ appData, onClose }: StatsViewProps) {
   })();
 
   // Exercise stats
-  const totalExerciseDays = entries.filter(e => e.exercise).length;
-  const totalExerciseCalories = entries.reduce((sum, e) => sum + (e.exercise?.caloriesBurned || 0), 0);
+  const exercise = exerciseSummary(entries);
+  const totalExerciseDays = exercise.sessions;
+  const totalExerciseCalories = exercise.caloriesBurned;
 
   // Meal type distribution
   const mealTypeCount = entries.reduce((acc, entry) => {
@@ -154,19 +159,28 @@ function StatsView({ appData, onClose }: StatsViewProps) {
               <h2 className="text-2xl font-bold">Statistics & Analytics</h2>
               <p className="text-sm text-white/90 mt-1">Track your progress over time</p>
             </div>
-            <button
-              onClick={onClose}
-              className="text-white hover:bg-indigo-600 rounded-lg p-2 transition-colors"
-            >
-              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M6 18L18 6M6 6l12 12"
-                />
-              </svg>
-            </button>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={handleExportReport}
+                disabled={isExportingReport || entries.length === 0}
+                className="px-4 py-2 bg-white/20 text-white rounded-lg text-sm font-medium hover:bg-white/30 disabled:opacity-50 transition-colors"
+              >
+                {isExportingReport ? 'Creating Report...' : 'PDF Report'}
+              </button>
+              <button
+                onClick={onClose}
+                className="text-white hover:bg-indigo-600 rounded-lg p-2 transition-colors"
+              >
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M6 18L18 6M6 6l12 12"
+                  />
+                </svg>
+              </button>
+            </div>
           </div>
 
           {/* Time Range Selector */}
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { PendingConflict, ConflictChoice } from '../types';
+
+interface SyncConflictDialogProps {
+  conflicts: PendingConflict[];
+  onDone: (resolvedAny: boolean) => void;
+}
+
+const TARGET_LABELS: Record<PendingConflict['kind'], string> = {
+  daily: 'daily entry',
+  appData: 'goals, food library and weight history',
+};
+
+// Walks through the conflict copies that could not be merged automatically, one at a time
+function SyncConflictDialog({ conflicts, onDone }: SyncConflictDialogProps) {
+  const [index, setIndex] = useState(0);
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+  const [resolvedAny, setResolvedAny] = useState(false);
+  const [error, setError] = useState('');
+  const [isMerging, setIsMerging] = useState(false);
+
+  const conflict = conflicts[index];
+
+  const next = (resolved: boolean) => {
+    setChoices({});
+    setError('');
+    if (index + 1 < conflicts.length) {
+      setIndex(index + 1);
+      setResolvedAny(resolvedAny || resolved);
+    } else {
+      onDone(resolvedAny || resolved);
+    }
+  };
+
+  const handleMerge = async () => {
+    setIsMerging(true);
+    setError('');
+    try {
+      const result = await window.electronAPI.resolveSyncConflict(conflict.file, choices);
+      if (result.success) {
+        next(true);
+      } else {
+        setError(result.error || 'Failed to merge the conflict copy');
+      }
+    } catch (err) {
+      console.error('Error resolving sync conflict:', err);
+      setError('An error occurred. Please try again.');
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  const choiceClass = (selected: boolean) =>
+    `flex-1 text-left p-3 rounded-lg border-2 transition-colors ${
+      selected ? 'border-amber-500 bg-amber-50' : 'border-gray-200 hover:border-gray-300'
+    }`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-amber-500 to-amber-600 text-white p-6">
+          <h2 className="text-2xl font-bold">Sync Conflict</h2>
+          <p className="text-sm text-white/90 mt-1">
+            {conflicts.length > 1 ? `${index + 1} of ${conflicts.length} · ` : ''}
+            Your {TARGET_LABELS[conflict.kind]} was changed on two computers
+          </p>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-auto p-6 space-y-4">
+          <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+            Your sync service kept both versions as <span className="font-mono">{conflict.target}</span> and{' '}
+            <span className="font-mono">{conflict.file}</span>. Everything else has been combined; choose which
+            version to keep for the items below. The conflict copy is deleted after merging.
+          </div>
+
+          {conflict.items.map(item => {
+            const choice = choices[item.key] || 'current';
+            return (
+              <div key={item.key} className="p-4 bg-gray-50 rounded-lg">
+                <p className="font-medium text-gray-900 mb-3">{item.label}</p>
+                <div className="flex gap-3">
+                  <button
+                    onClick={() => setChoices({ ...choices, [item.key]: 'current' })}
+                    className={choiceClass(choice === 'current')}
+                  >
+                    <span className="block text-xs font-semibold text-gray-500 uppercase mb-1">Current</span>
+                    <span className="block text-sm text-gray-900 break-words">{item.current}</span>
+                  </button>
+                  <button
+                    onClick={() => setChoices({ ...choices, [item.key]: 'incoming' })}
+                    className={choiceClass(choice === 'incoming')}
+                  >
+                    <span className="block text-xs font-semibold text-gray-500 uppercase mb-1">Conflict copy</span>
+                    <span className="block text-sm text-gray-900 break-words">{item.incoming}</span>
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="border-t border-gray-200 p-6 bg-gray-50">
+          <div className="flex gap-3">
+            <button
+              onClick={() => next(false)}
+              disabled={isMerging}
+              className="flex-1 px-4 py-3 bg-white border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 disabled:opacity-50 transition-colors"
+            >
+              Decide Later
+            </button>
+            <button
+              onClick={handleMerge}
+              disabled={isMerging}
+              className="flex-1 px-4 py-3 bg-amber-500 hover:bg-amber-600 disabled:bg-gray-300 text-white rounded-lg font-medium transition-colors"
+            >
+              {isMerging ? 'Merging...' : 'Merge'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default SyncConflictDialog;
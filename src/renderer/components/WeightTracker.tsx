@@ -26,7 +26,7 @@ function WeightTracker({ appData, onClose, onDataUpdated }: WeightTrackerProps)
     ? latestWeight.weight - startingWeight.weight
     : 0;
 
-  const weightToGoal = latestWeight
+  const weightToGoal = latestWeight && targetWeight !== undefined
     ? latestWeight.weight - targetWeight
     : 0;
 
@@ -175,7 +175,9 @@ function WeightTracker({ appData, onClose, onDataUpdated }: WeightTrackerProps)
                   {weightToGoal > 0 ? '+' : ''}
                   {weightToGoal.toFixed(1)} lbs
                 </div>
-                <div className="text-xs text-gray-500 mt-1">Goal: {targetWeight} lbs</div>
+                <div className="text-xs text-gray-500 mt-1">
+                  {targetWeight !== undefined ? `Goal: ${targetWeight} lbs` : 'No goal set'}
+                </div>
               </div>
             </div>
 
@@ -193,12 +195,14 @@ function WeightTracker({ appData, onClose, onDataUpdated }: WeightTrackerProps)
                       label={{ value: 'Weight (lbs)', angle: -90, position: 'insideLeft' }}
                     />
                     <Tooltip />
-                    <ReferenceLine
-                      y={targetWeight}
-                      stroke="#f97316"
-                      strokeDasharray="3 3"
-                      label="Goal"
-                    />
+                    {targetWeight !== undefined && (
+                      <ReferenceLine
+                        y={targetWeight}
+                        stroke="#f97316"
+                        strokeDasharray="3 3"
+                        label="Goal"
+                      />
+                    )}
                     <Line
                       type="monotone"
                       dataKey="weight"
@@ -1,71 +1,156 @@
-export interface FoodItem {
+// Stored data types come from the Zod schemas the main process validates with
+export type {
+  ServingUnit,
+  Serving,
+  FoodItem,
+  MealEntry,
+  ExerciseEntry,
+  WaterEntry,
+  WeightEntry,
+  DailyEntry,
+  UserGoals,
+  SavedFood,
+  RecipeIngredient,
+  Recipe,
+  MealTemplate,
+  PrivacySettings,
+  AppData,
+} from '../shared/schemas';
+import type { DailyEntry, AppData } from '../shared/schemas';
+
+export interface Profile {
+  id: string;
   name: string;
-  calories: number;
-  protein: number;
-  carbs: number;
-  fats: number;
-  servingSize?: string;
+  dataPath: string | null;
 }
 
-export interface MealEntry {
-  id: string;
-  mealType: 'breakfast' | 'lunch' | 'dinner' | 'snack';
-  time: string;
-  foods: FoodItem[];
-  notes?: string;
+export interface ProfileList {
+  profiles: Profile[];
+  activeProfileId: string;
 }
 
-export interface ExerciseEntry {
-  id: string;
-  type: '2G' | '3G' | 'Tread 50' | 'Weight 50' | 'Other';
-  caloriesBurned: number;
-  duration?: number;
-  notes?: string;
+export interface LockSettings {
+  idleMinutes: number;
+  lockOnMinimize: boolean;
 }
 
-export interface WaterEntry {
-  glasses: number;
-  ounces: number;
+export type HealthIssueStage = 'read' | 'frontmatter' | 'decrypt' | 'json' | 'schema';
+
+export interface HealthIssue {
+  file: string;
+  stage: HealthIssueStage;
+  reason: string;
 }
 
-export interface WeightEntry {
-  weight: number;
-  date: string;
-  notes?: string;
+export interface HealthReport {
+  checkedAt: string;
+  filesChecked: number;
+  issues: HealthIssue[];
 }
 
-export interface DailyEntry {
-  id: string;
+export interface QuarantineResult {
+  success: boolean;
+  moved: string[];
+  failed: { file: string; reason: string }[];
+  error?: string;
+}
+
+export interface BackupInfo {
+  file: string;
+  createdAt: string;
+  size: number;
+}
+
+// replace: the archive's version wins; merge: only add what is missing
+export type RestoreMode = 'replace' | 'merge';
+
+export interface RestorePreview {
+  createdAt: string;
+  days: { added: string[]; changed: string[]; unchanged: number };
+  savedFoods: { added: number; changed: number };
+  recipes: { added: number; changed: number };
+  mealTemplates: { added: number; changed: number };
+  weights: { added: number; changed: number };
+  recentMeals: number;
+  goalsChanged: boolean;
+}
+
+export type FoodLogSource = 'myfitnesspal' | 'cronometer';
+
+export interface FoodLogDayPreview {
   date: string;
-  meals: MealEntry[];
-  exercise?: ExerciseEntry;
-  water: WaterEntry;
-  weight?: number;
-  notes?: string;
-  tags: string[];
+  isNewDay: boolean;
+  meals: number;
+  duplicates: number;
+  calories: number;
 }
 
-export interface UserGoals {
-  dailyCalories: number;
-  protein: number;
-  carbs: number;
-  fats: number;
-  targetWeight: number;
-  waterGlasses: number;
+export interface FoodLogImportPreview {
+  source: FoodLogSource;
+  days: FoodLogDayPreview[];
+  meals: number;
+  duplicates: number;
+  skipped: { row: number; reason: string }[];
 }
 
-export interface SavedFood extends FoodItem {
-  id: string;
-  category?: string;
-  lastUsed?: string;
-  useCount: number;
+export interface FoodLogImportResult {
+  success: boolean;
+  days?: number;
+  meals?: number;
+  duplicates?: number;
+  failed?: { date: string; error: string }[];
+  error?: string;
+}
+
+// What to do with an imported day that already has an entry
+export type ImportConflictPolicy = 'skip' | 'overwrite' | 'merge';
+
+export interface DataImportResult {
+  success: boolean;
+  canceled?: boolean;
+  format?: 'json' | 'csv';
+  imported?: number;
+  skipped?: number;
+  invalid?: { day: string; error: string }[];
+  error?: string;
+}
+
+// csv: one row per day; csv-itemized: one row per food eaten; ics: meals and workouts as calendar events
+export type ExportFormat = 'csv' | 'csv-itemized' | 'json' | 'ics';
+
+// Extra files written next to an itemized export
+export interface ItemizedExportOptions {
+  includeExercise: boolean;
+  includeWater: boolean;
+}
+
+// A file changed outside the app, e.g. by a sync client
+export type DataChange =
+  | { kind: 'appData' }
+  | { kind: 'daily'; date: string }
+  | { kind: 'conflict'; file: string };
+
+export type ConflictChoice = 'current' | 'incoming';
+
+// One item that was changed differently in a file and its sync conflict copy
+export interface ConflictItem {
+  key: string;
+  label: string;
+  current: string;
+  incoming: string;
+}
+
+export interface PendingConflict {
+  file: string;
+  target: string;
+  kind: 'daily' | 'appData';
+  items: ConflictItem[];
 }
 
-export interface AppData {
-  goals: UserGoals;
-  savedFoods: SavedFood[];
-  recentMeals: MealEntry[];
-  weightHistory: WeightEntry[];
+export interface SyncConflictReport {
+  merged: string[];
+  pending: PendingConflict[];
+  failed: { file: string; reason: string }[];
 }
 
 export interface ElectronAPI {
@@ -73,11 +158,25 @@ export interface ElectronAPI {
   selectDataFolder: () => Promise<string | null>;
   getDataPath: () => Promise<string | null>;
 
+  // Profiles
+  getProfiles: () => Promise<ProfileList>;
+  createProfile: (name: string) => Promise<{ success: boolean; profile?: Profile; error?: string }>;
+  switchProfile: (id: string) => Promise<{ success: boolean; profile?: Profile; error?: string }>;
+  deleteProfile: (id: string) => Promise<{ success: boolean; error?: string }>;
+
   // Password/Encryption
-  setPassword: (password: string, remember: boolean) => Promise<boolean>;
+  setPassword: (password: string, remember: boolean) => Promise<{ success: boolean; remembered: boolean }>;
   verifyPassword: (password: string) => Promise<boolean>;
   getSavedPassword: () => Promise<string | null>;
   clearSavedPassword: () => Promise<boolean>;
+  changePassword: (oldPassword: string, newPassword: string) => Promise<{ success: boolean; error?: string }>;
+
+  // Session locking
+  lockSession: () => Promise<boolean>;
+  getLockSettings: () => Promise<LockSettings>;
+  saveLockSettings: (settings: LockSettings) => Promise<{ success: boolean }>;
+  onSessionLocked: (callback: () => void) => () => void;
+  setStrictPrivacy: (enabled: boolean) => Promise<{ success: boolean; rewritten: number; error?: string }>;
 
   // Daily entries
   getDailyEntries: (startDate?: string, endDate?: string) => Promise<DailyEntry[]>;
@@ -91,8 +190,45 @@ export interface ElectronAPI {
   // Search
   searchEntries: (query: string, tags: string[]) => Promise<DailyEntry[]>;
 
+  // Data health
+  checkDataHealth: () => Promise<HealthReport | null>;
+  quarantineFiles: (files: string[]) => Promise<QuarantineResult>;
+
+  // Live reload
+  onDataChanged: (callback: (change: DataChange) => void) => () => void;
+
+  // Sync conflicts
+  getSyncConflicts: () => Promise<SyncConflictReport>;
+  resolveSyncConflict: (file: string, choices: Record<string, ConflictChoice>) => Promise<{ success: boolean; error?: string }>;
+
+  // Backups
+  listBackups: () => Promise<BackupInfo[]>;
+  restoreBackup: (file: string) => Promise<{ success: boolean; error?: string }>;
+
+  // Backup archives
+  exportBackupArchive: (password: string) => Promise<{ success: boolean; canceled?: boolean; entries?: number; error?: string }>;
+  selectBackupArchive: () => Promise<string | null>;
+  previewBackupArchive: (filePath: string, password: string) => Promise<{ success: boolean; preview?: RestorePreview; error?: string }>;
+  restoreBackupArchive: (filePath: string, password: string, mode: RestoreMode) => Promise<{ success: boolean; daysWritten?: number; error?: string }>;
+
+  // Import from other trackers
+  selectFoodLogFile: () => Promise<string | null>;
+  previewFoodLogImport: (filePath: string) => Promise<{ success: boolean; preview?: FoodLogImportPreview; error?: string }>;
+  importFoodLog: (filePath: string) => Promise<FoodLogImportResult>;
+
+  // Import the app's own exports
+  importData: (policy: ImportConflictPolicy) => Promise<DataImportResult>;
+
+  // Reports
+  exportReport: (startDate: string, endDate: string) => Promise<{ success: boolean; canceled?: boolean; error?: string }>;
+
   // Export
-  exportData: (format: 'csv' | 'json', startDate: string, endDate: string) => Promise<{ success: boolean }>;
+  exportData: (
+    format: ExportFormat,
+    startDate: string,
+    endDate: string,
+    options?: ItemizedExportOptions
+  ) => Promise<{ success: boolean; canceled?: boolean; files?: string[]; error?: string }>;
 }
 
 declare global {
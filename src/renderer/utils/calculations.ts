@@ -1,37 +1,52 @@
 import { MealEntry, FoodItem } from '../types';
+import { scaledFood } from '../../shared/servings';
+import { MICRONUTRIENTS } from '../../shared/nutrients';
 
 export interface NutritionTotals {
   calories: number;
   protein: number;
   carbs: number;
   fats: number;
+  fiber: number;
+  sugar: number;
+  sodium: number;
+  saturatedFat: number;
+  cholesterol: number;
 }
 
+// Servings eaten count: a food logged with quantity 1.5 adds 1.5 times its values.
+// Micronutrients a food has no value for add nothing.
+const addFood = (totals: NutritionTotals, food: FoodItem): NutritionTotals => {
+  const eaten = scaledFood(food);
+  const sum = { ...totals };
+  sum.calories += eaten.calories;
+  sum.protein += eaten.protein;
+  sum.carbs += eaten.carbs;
+  sum.fats += eaten.fats;
+  for (const { key } of MICRONUTRIENTS) {
+    sum[key] += eaten[key] ?? 0;
+  }
+  return sum;
+};
+
+const EMPTY_TOTALS: NutritionTotals = {
+  calories: 0,
+  protein: 0,
+  carbs: 0,
+  fats: 0,
+  fiber: 0,
+  sugar: 0,
+  sodium: 0,
+  saturatedFat: 0,
+  cholesterol: 0,
+};
+
 export const calculateMealTotals = (meals: MealEntry[]): NutritionTotals => {
-  return meals.reduce(
-    (totals, meal) => {
-      meal.foods.forEach((food) => {
-        totals.calories += food.calories;
-        totals.protein += food.protein;
-        totals.carbs += food.carbs;
-        totals.fats += food.fats;
-      });
-      return totals;
-    },
-    { calories: 0, protein: 0, carbs: 0, fats: 0 }
-  );
+  return calculateFoodTotals(meals.flatMap((meal) => meal.foods));
 };
 
 export const calculateFoodTotals = (foods: FoodItem[]): NutritionTotals => {
-  return foods.reduce(
-    (totals, food) => ({
-      calories: totals.calories + food.calories,
-      protein: totals.protein + food.protein,
-      carbs: totals.carbs + food.carbs,
-      fats: totals.fats + food.fats,
-    }),
-    { calories: 0, protein: 0, carbs: 0, fats: 0 }
-  );
+  return foods.reduce(addFood, EMPTY_TOTALS);
 };
 
 export const calculateProgress = (current: number, goal: number): number => {
@@ -0,0 +1,41 @@
+import { eachDayOfInterval, format, parseISO } from 'date-fns';
+import { DailyEntry, MealEntry } from '../types';
+import { DATE_FORMAT } from './dateUtils';
+
+// Copying meals from one day to others. Copies get new ids, so a meal copied
+// to several days (or twice to the same day) never shares an id with another.
+
+// One meal, every meal of its type, or all meals of the day
+export type CopyScope = 'meal' | 'mealType' | 'day';
+
+export type CopyMode = 'append' | 'overwrite';
+
+export const MAX_COPY_DAYS = 31;
+
+export function datesInRange(startDate: string, endDate: string): string[] {
+  if (startDate > endDate) return [];
+  return eachDayOfInterval({ start: parseISO(startDate), end: parseISO(endDate) }).map(date =>
+    format(date, DATE_FORMAT)
+  );
+}
+
+export function mealsToCopy(entry: DailyEntry, scope: CopyScope, meal?: MealEntry): MealEntry[] {
+  if (scope === 'day' || !meal) return entry.meals;
+  if (scope === 'mealType') return entry.meals.filter(m => m.mealType === meal.mealType);
+  return [meal];
+}
+
+// Overwriting replaces what the copy covers: every meal for a whole day,
+// otherwise only the meals of the copied types
+export function copyMealsInto(target: DailyEntry, meals: MealEntry[], mode: CopyMode, scope: CopyScope, idPrefix: string): DailyEntry {
+  const copies = meals.map((meal, index) => ({ ...meal, id: `${idPrefix}-${index}` }));
+  const copiedTypes = new Set(meals.map(meal => meal.mealType));
+  const kept =
+    mode === 'append'
+      ? target.meals
+      : scope === 'day'
+        ? []
+        : target.meals.filter(meal => !copiedTypes.has(meal.mealType));
+
+  return { ...target, meals: [...kept, ...copies] };
+}
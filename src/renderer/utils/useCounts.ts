@@ -0,0 +1,17 @@
+import { AppData } from '../types';
+
+// Counts a use of a saved food or recipe. Built from the app data as stored now,
+// not from a copy held by a component, so an update saved in the meantime (like
+// another food added in the same dialog) is not overwritten.
+export async function recordUse(list: 'savedFoods' | 'recipes', id: string): Promise<void> {
+  const latest = await window.electronAPI.getAppData();
+  if (!latest) return;
+
+  const updated: AppData = { ...latest };
+  if (list === 'savedFoods') {
+    updated.savedFoods = latest.savedFoods.map(f => (f.id === id ? { ...f, useCount: f.useCount + 1 } : f));
+  } else {
+    updated.recipes = latest.recipes.map(r => (r.id === id ? { ...r, useCount: r.useCount + 1 } : r));
+  }
+  await window.electronAPI.saveAppData(updated);
+}
@@ -0,0 +1,44 @@
+import type { FoodItem } from './schemas';
+
+// Micronutrients tracked beside calories and macros. All are optional on foods
+// and goals; a day's total counts foods without a value as zero.
+
+export type Micronutrient = 'fiber' | 'sugar' | 'sodium' | 'saturatedFat' | 'cholesterol';
+
+export interface MicronutrientInfo {
+  key: Micronutrient;
+  label: string;
+  unit: 'g' | 'mg';
+  // A goal is reached by eating at least that much, a limit by staying under it
+  target: 'goal' | 'limit';
+}
+
+export const MICRONUTRIENTS: MicronutrientInfo[] = [
+  { key: 'fiber', label: 'Fiber', unit: 'g', target: 'goal' },
+  { key: 'sugar', label: 'Sugar', unit: 'g', target: 'limit' },
+  { key: 'sodium', label: 'Sodium', unit: 'mg', target: 'limit' },
+  { key: 'saturatedFat', label: 'Saturated Fat', unit: 'g', target: 'limit' },
+  { key: 'cholesterol', label: 'Cholesterol', unit: 'mg', target: 'limit' },
+];
+
+export type Micronutrients = Partial<Record<Micronutrient, number>>;
+
+// A food's micronutrient fields, e.g. to copy them from a saved food. Unset
+// ones are included as undefined, so copying over another food clears them.
+export function pickMicronutrients(food: Micronutrients): Micronutrients {
+  const values: Micronutrients = {};
+  for (const { key } of MICRONUTRIENTS) {
+    values[key] = food[key];
+  }
+  return values;
+}
+
+// Applies scale to every micronutrient the food has a value for
+export function scaleMicronutrients(food: FoodItem, scale: (value: number) => number): Micronutrients {
+  const values: Micronutrients = {};
+  for (const { key } of MICRONUTRIENTS) {
+    const value = food[key];
+    if (value !== undefined) values[key] = scale(value);
+  }
+  return values;
+}
@@ -0,0 +1,82 @@
+import type { DailyEntry, WeightEntry } from './schemas';
+import { scaledFood } from './servings';
+
+// Aggregation over a range of daily entries. Used by the statistics view and
+// by the PDF report in the main process, so both show the same numbers.
+
+export interface DayTotals {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fats: number;
+}
+
+const CALORIES_PER_GRAM = { protein: 4, carbs: 4, fats: 9 };
+
+export function calculateDayTotals(entry: DailyEntry): DayTotals {
+  return entry.meals.reduce(
+    (totals, meal) => {
+      meal.foods.map(scaledFood).forEach(food => {
+        totals.calories += food.calories;
+        totals.protein += food.protein;
+        totals.carbs += food.carbs;
+        totals.fats += food.fats;
+      });
+      return totals;
+    },
+    { calories: 0, protein: 0, carbs: 0, fats: 0 }
+  );
+}
+
+// Averages over the days that were logged, rounded to whole numbers
+export function averageDayTotals(entries: DailyEntry[]): DayTotals {
+  if (entries.length === 0) {
+    return { calories: 0, protein: 0, carbs: 0, fats: 0 };
+  }
+
+  const sums = entries.map(calculateDayTotals).reduce((acc, totals) => ({
+    calories: acc.calories + totals.calories,
+    protein: acc.protein + totals.protein,
+    carbs: acc.carbs + totals.carbs,
+    fats: acc.fats + totals.fats,
+  }));
+
+  return {
+    calories: Math.round(sums.calories / entries.length),
+    protein: Math.round(sums.protein / entries.length),
+    carbs: Math.round(sums.carbs / entries.length),
+    fats: Math.round(sums.fats / entries.length),
+  };
+}
+
+// Calories from each macro
+export function macroCalories(totals: DayTotals): { protein: number; carbs: number; fats: number } {
+  return {
+    protein: totals.protein * CALORIES_PER_GRAM.protein,
+    carbs: totals.carbs * CALORIES_PER_GRAM.carbs,
+    fats: totals.fats * CALORIES_PER_GRAM.fats,
+  };
+}
+
+export function exerciseSummary(entries: DailyEntry[]): { sessions: number; caloriesBurned: number } {
+  const withExercise = entries.filter(entry => entry.exercise);
+  return {
+    sessions: withExercise.length,
+    caloriesBurned: withExercise.reduce((sum, entry) => sum + entry.exercise!.caloriesBurned, 0),
+  };
+}
+
+// Days on which the water goal was reached, out of the days logged
+export function waterAdherence(entries: DailyEntry[], goalGlasses: number): { daysMet: number; days: number } {
+  return {
+    daysMet: entries.filter(entry => entry.water.glasses >= goalGlasses).length,
+    days: entries.length,
+  };
+}
+
+// Weigh-ins within the range, oldest first
+export function weightTrend(weightHistory: WeightEntry[], startDate: string, endDate: string): WeightEntry[] {
+  return weightHistory
+    .filter(entry => entry.date >= startDate && entry.date <= endDate)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
@@ -0,0 +1,62 @@
+import type { FoodItem, Recipe, RecipeIngredient, SavedFood } from './schemas';
+import { MICRONUTRIENTS } from './nutrients';
+
+// Recipes combine saved foods. Their nutrition is never stored: it is summed
+// from the ingredients' current values whenever the recipe is shown or logged.
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// How many times a food's stored values count for an ingredient. Null when the
+// amount can't be converted, e.g. grams of a food that is now stored per
+// serving without a serving size in grams.
+export function ingredientFactor(food: SavedFood, ingredient: RecipeIngredient): number | null {
+  if (ingredient.unit === 'g') {
+    if (food.per100g) return ingredient.quantity / 100;
+    if (food.serving?.unit === 'g') return ingredient.quantity / food.serving.amount;
+    return null;
+  }
+  return food.per100g ? null : ingredient.quantity;
+}
+
+// Ingredients whose saved food has since been deleted, or changed so that
+// their amount no longer applies
+export function unusableIngredients(recipe: Recipe, savedFoods: SavedFood[]): number {
+  const byId = new Map(savedFoods.map(food => [food.id, food]));
+  return recipe.ingredients.filter(ingredient => {
+    const food = byId.get(ingredient.foodId);
+    return !food || ingredientFactor(food, ingredient) === null;
+  }).length;
+}
+
+// One serving of the recipe as a food to log. Unusable ingredients add nothing;
+// a micronutrient is only included if some ingredient has a value for it.
+export function recipeServing(recipe: Recipe, savedFoods: SavedFood[]): FoodItem {
+  const byId = new Map(savedFoods.map(food => [food.id, food]));
+  const serving: FoodItem = { name: recipe.name, calories: 0, protein: 0, carbs: 0, fats: 0 };
+
+  for (const ingredient of recipe.ingredients) {
+    const food = byId.get(ingredient.foodId);
+    const amount = food ? ingredientFactor(food, ingredient) : null;
+    if (!food || amount === null) continue;
+
+    const factor = amount / recipe.servings;
+    serving.calories += food.calories * factor;
+    serving.protein += food.protein * factor;
+    serving.carbs += food.carbs * factor;
+    serving.fats += food.fats * factor;
+    for (const { key } of MICRONUTRIENTS) {
+      const value = food[key];
+      if (value !== undefined) serving[key] = (serving[key] ?? 0) + value * factor;
+    }
+  }
+
+  serving.calories = round(serving.calories);
+  serving.protein = round(serving.protein);
+  serving.carbs = round(serving.carbs);
+  serving.fats = round(serving.fats);
+  for (const { key } of MICRONUTRIENTS) {
+    const value = serving[key];
+    if (value !== undefined) serving[key] = round(value);
+  }
+  return serving;
+}
@@ -0,0 +1,175 @@
+import { z } from 'zod';
+
+// The single definition of the data the app stores. The main process validates
+// with these schemas and the renderer's types are inferred from them, so the two
+// cannot drift apart. Only types may be imported from here in the renderer.
+
+// Serving Schema
+export const ServingUnitSchema = z.enum(['g', 'ml', 'oz', 'cup', 'piece']);
+
+export const ServingSchema = z.object({
+  amount: z.number().positive(),
+  unit: ServingUnitSchema,
+});
+
+// Micronutrients, each optional: sodium and cholesterol in mg, the rest in g
+const MicronutrientFields = {
+  fiber: z.number().min(0).optional(),
+  sugar: z.number().min(0).optional(),
+  sodium: z.number().min(0).optional(),
+  saturatedFat: z.number().min(0).optional(),
+  cholesterol: z.number().min(0).optional(),
+};
+
+// Food Item Schema
+// Calories and macros are for one serving
+export const FoodItemSchema = z.object({
+  name: z.string().min(1),
+  calories: z.number().min(0),
+  protein: z.number().min(0),
+  carbs: z.number().min(0),
+  fats: z.number().min(0),
+  ...MicronutrientFields,
+  serving: ServingSchema.optional(),
+  // A serving described in words, like "1 large", that has no amount and unit
+  servingLabel: z.string().optional(),
+  // Servings eaten, for logged foods; missing means one
+  quantity: z.number().positive().optional(),
+  // Weight eaten, for foods logged by weight; the values are for this many grams
+  grams: z.number().positive().optional(),
+});
+
+// Meal Entry Schema
+export const MealEntrySchema = z.object({
+  id: z.string(),
+  mealType: z.enum(['breakfast', 'lunch', 'dinner', 'snack']),
+  time: z.string().regex(/^\d{2}:\d{2}$/),
+  foods: z.array(FoodItemSchema),
+  notes: z.string().optional(),
+});
+
+// Exercise Entry Schema
+export const ExerciseEntrySchema = z.object({
+  id: z.string(),
+  type: z.enum(['2G', '3G', 'Tread 50', 'Weight 50', 'Other']),
+  caloriesBurned: z.number().min(0),
+  duration: z.number().min(0).optional(),
+  notes: z.string().optional(),
+});
+
+// Water Schema
+export const WaterSchema = z.object({
+  glasses: z.number().min(0).max(50),
+  ounces: z.number().min(0).max(400),
+});
+
+// Daily Entry Schema
+export const DailyEntrySchema = z.object({
+  // Missing in files written before versioning; stamped on every save
+  schemaVersion: z.number().int().min(1).optional(),
+  id: z.string().optional(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  meals: z.array(MealEntrySchema),
+  water: WaterSchema,
+  exercise: ExerciseEntrySchema.optional(),
+  weight: z.number().min(0).max(1000).optional(),
+  notes: z.string().optional(),
+  tags: z.array(z.string()),
+});
+
+// Saved Food Schema
+export const SavedFoodSchema = FoodItemSchema.omit({ quantity: true, grams: true }).extend({
+  id: z.string(),
+  // Calories and macros are per 100 g instead of per serving
+  per100g: z.boolean().optional(),
+  category: z.string().optional(),
+  lastUsed: z.string().optional(),
+  useCount: z.number().min(0),
+});
+
+// Recipe Schema
+// Ingredients refer to saved foods by id, so a recipe's nutrition is worked out
+// from the foods' current values each time it is used
+export const RecipeIngredientSchema = z.object({
+  foodId: z.string(),
+  // Stored with the amount, so switching the food between per serving and
+  // per 100 g does not quietly turn 1 serving into 1 g
+  unit: z.enum(['serving', 'g']),
+  quantity: z.number().positive(),
+});
+
+export const RecipeSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  ingredients: z.array(RecipeIngredientSchema),
+  // Servings the whole recipe makes
+  servings: z.number().positive(),
+  lastUsed: z.string().optional(),
+  useCount: z.number().min(0),
+});
+
+// Meal Template Schema
+// A named meal to log again; applying it adds a copy with a new id
+export const MealTemplateSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  meal: MealEntrySchema,
+});
+
+// User Goals Schema
+export const UserGoalsSchema = z.object({
+  dailyCalories: z.number().min(500).max(10000),
+  protein: z.number().min(0).max(500),
+  carbs: z.number().min(0).max(1000),
+  fats: z.number().min(0).max(500),
+  waterGlasses: z.number().min(0).max(50),
+  targetWeight: z.number().min(0).max(1000).optional(),
+  // Fiber is a goal to reach, the other micronutrients are limits; unset ones are not shown
+  fiber: z.number().min(0).max(200).optional(),
+  sugar: z.number().min(0).max(500).optional(),
+  sodium: z.number().min(0).max(20000).optional(),
+  saturatedFat: z.number().min(0).max(200).optional(),
+  cholesterol: z.number().min(0).max(5000).optional(),
+});
+
+// Weight Entry Schema
+export const WeightEntrySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  weight: z.number().min(0).max(1000),
+  notes: z.string().optional(),
+});
+
+// Privacy Settings Schema
+export const PrivacySettingsSchema = z.object({
+  // Keep calorie totals out of the plaintext frontmatter of daily files
+  strictMetadata: z.boolean(),
+});
+
+// App Data Schema
+export const AppDataSchema = z.object({
+  // Missing in files written before versioning; stamped on every save
+  schemaVersion: z.number().int().min(1).optional(),
+  savedFoods: z.array(SavedFoodSchema),
+  recipes: z.array(RecipeSchema),
+  mealTemplates: z.array(MealTemplateSchema),
+  recentMeals: z.array(MealEntrySchema),
+  goals: UserGoalsSchema,
+  weightHistory: z.array(WeightEntrySchema),
+  privacy: PrivacySettingsSchema.optional(),
+});
+
+export type ServingUnit = z.infer<typeof ServingUnitSchema>;
+export type Serving = z.infer<typeof ServingSchema>;
+export type FoodItem = z.infer<typeof FoodItemSchema>;
+export type MealEntry = z.infer<typeof MealEntrySchema>;
+export type ExerciseEntry = z.infer<typeof ExerciseEntrySchema>;
+export type WaterEntry = z.infer<typeof WaterSchema>;
+export type DailyEntry = z.infer<typeof DailyEntrySchema>;
+export type SavedFood = z.infer<typeof SavedFoodSchema>;
+export type RecipeIngredient = z.infer<typeof RecipeIngredientSchema>;
+export type Recipe = z.infer<typeof RecipeSchema>;
+export type MealTemplate = z.infer<typeof MealTemplateSchema>;
+export type UserGoals = z.infer<typeof UserGoalsSchema>;
+export type WeightEntry = z.infer<typeof WeightEntrySchema>;
+export type PrivacySettings = z.infer<typeof PrivacySettingsSchema>;
+export type AppData = z.infer<typeof AppDataSchema>;
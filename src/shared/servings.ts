@@ -0,0 +1,86 @@
+import type { FoodItem, Serving, ServingUnit } from './schemas';
+import { Micronutrients, scaleMicronutrients } from './nutrients';
+
+// Serving sizes and quantities. A food's calories and macros are for one
+// serving; a logged food's quantity says how many servings were eaten.
+
+export const SERVING_UNITS: ServingUnit[] = ['g', 'ml', 'oz', 'cup', 'piece'];
+
+// Spellings found in free-text serving sizes and other apps' exports
+const UNIT_ALIASES: Record<string, ServingUnit> = {
+  g: 'g', gr: 'g', gram: 'g', grams: 'g',
+  ml: 'ml', milliliter: 'ml', milliliters: 'ml', millilitre: 'ml', millilitres: 'ml',
+  oz: 'oz', ounce: 'oz', ounces: 'oz',
+  cup: 'cup', cups: 'cup', c: 'cup',
+  piece: 'piece', pieces: 'piece', pc: 'piece', pcs: 'piece', slice: 'piece', slices: 'piece',
+  item: 'piece', items: 'piece', each: 'piece',
+};
+
+// "100 g", "1.5 cups", "1/2 cup", "250ml", "2" (pieces). Null for anything
+// else, like "1 medium".
+export function parseServingSize(text: string): Serving | null {
+  const match = /^\s*(\d+(?:\.\d+)?|\d+\/\d+)\s*([a-z]+)?\.?\s*$/i.exec(text);
+  if (!match) return null;
+
+  const [numerator, denominator] = match[1].split('/').map(Number);
+  const amount = denominator ? numerator / denominator : numerator;
+  const unit = match[2] ? UNIT_ALIASES[match[2].toLowerCase()] : 'piece';
+  if (!unit || !(amount > 0)) return null;
+
+  return { amount: Math.round(amount * 100) / 100, unit };
+}
+
+export function formatServing(serving: Serving): string {
+  if (serving.unit === 'piece') {
+    return `${serving.amount} ${serving.amount === 1 ? 'piece' : 'pieces'}`;
+  }
+  if (serving.unit === 'cup') {
+    return `${serving.amount} ${serving.amount === 1 ? 'cup' : 'cups'}`;
+  }
+  return `${serving.amount} ${serving.unit}`;
+}
+
+// The serving's amount and unit, or its label for servings without one
+export function servingText(food: Pick<FoodItem, 'serving' | 'servingLabel'>): string {
+  if (food.serving) return formatServing(food.serving);
+  return food.servingLabel ?? '';
+}
+
+// "1.5 × 100 g", or just the serving when one was eaten. Foods logged by
+// weight show the grams.
+export function formatPortion(food: FoodItem): string {
+  if (food.grams !== undefined) return `${food.grams} g`;
+
+  const quantity = food.quantity ?? 1;
+  const serving = servingText(food);
+  if (quantity === 1) return serving;
+  return serving ? `${quantity} × ${serving}` : `${quantity} servings`;
+}
+
+// A food logged by weight, recalculated for another weight. Values of foods
+// without grams are taken to be per 100 g, as saved foods entered per 100 g are.
+export function withGrams(food: FoodItem, grams: number): FoodItem {
+  const factor = grams / (food.grams ?? 100);
+  const scale = (value: number) => Math.round(value * factor * 100) / 100;
+  return {
+    ...food,
+    calories: scale(food.calories),
+    protein: scale(food.protein),
+    carbs: scale(food.carbs),
+    fats: scale(food.fats),
+    ...scaleMicronutrients(food, scale),
+    grams,
+  };
+}
+
+// Calories and macros actually eaten: one serving's values times the quantity
+export function scaledFood(food: FoodItem): { calories: number; protein: number; carbs: number; fats: number } & Micronutrients {
+  const quantity = food.quantity ?? 1;
+  return {
+    calories: food.calories * quantity,
+    protein: food.protein * quantity,
+    carbs: food.carbs * quantity,
+    fats: food.fats * quantity,
+    ...scaleMicronutrients(food, value => value * quantity),
+  };
+}